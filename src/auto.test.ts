@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const autoInit = vi.fn();
+vi.mock('./index', () => ({ autoInit }));
+
+describe('auto bundle', () => {
+	afterEach(() => {
+		Reflect.deleteProperty(document, 'readyState');
+		vi.resetModules();
+		autoInit.mockClear();
+	});
+
+	it('should auto-init immediately when the DOM is ready', async () => {
+		await import('./auto');
+		expect(autoInit).toHaveBeenCalledTimes(1);
+	});
+
+	it('should wait for DOMContentLoaded while the document is loading', async () => {
+		Object.defineProperty(document, 'readyState', { configurable: true, get: () => 'loading' });
+		await import('./auto');
+		expect(autoInit).not.toHaveBeenCalled();
+
+		document.dispatchEvent(new Event('DOMContentLoaded'));
+		document.dispatchEvent(new Event('DOMContentLoaded'));
+		expect(autoInit).toHaveBeenCalledTimes(1);
+	});
+
+	it('should do nothing when imported without a DOM', async () => {
+		const realDocument = document;
+		vi.stubGlobal('document', undefined);
+		await import('./auto');
+		vi.stubGlobal('document', realDocument);
+
+		expect(autoInit).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,16 @@
+/**
+ * Side-effect entry for `<script>` tags: registers `<classy-scroll>` and runs `autoInit()` once the DOM is ready.
+ * Importing it during server-side rendering is a no-op.
+ */
+import { autoInit } from './index';
+import { defineClassyScrollElement } from './element';
+
+if (typeof document !== 'undefined') {
+	defineClassyScrollElement();
+
+	if (document.readyState === 'loading') {
+		document.addEventListener('DOMContentLoaded', () => autoInit(), { once: true });
+	} else {
+		autoInit();
+	}
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { defineClassyScrollElement } from './element';
+import { triggerIntersect, triggerIntersectBatch, getObserver, type IntersectionObserverMock } from '../test/setup';
+
+const getGhosts = () => document.querySelectorAll<HTMLElement>('[data-cs-ghost="true"]');
+
+const mount = (html: string) => {
+	document.body.innerHTML = html;
+	return document.querySelector('classy-scroll')!;
+};
+
+describe('<classy-scroll>', () => {
+	beforeAll(() => {
+		defineClassyScrollElement();
+		defineClassyScrollElement();
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('should track its children with options from attributes', () => {
+		const host = mount('<classy-scroll add-class="shown" threshold="0.5"><div></div><div></div></classy-scroll>');
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(2);
+		expect((getObserver(ghosts[0]) as unknown as IntersectionObserverMock).options?.threshold).toBe(0.5);
+
+		triggerIntersect(ghosts[0], true);
+		expect(host.children[0].classList.contains('shown')).toBe(true);
+		expect(host.children[1].classList.contains('shown')).toBe(false);
+	});
+
+	it('should only track descendants matching the target selector', () => {
+		mount('<classy-scroll target=".card"><section><div class="card"></div><p></p></section></classy-scroll><div class="card"></div>');
+		expect(getGhosts()).toHaveLength(1);
+
+		document.body.innerHTML = '';
+		mount('<classy-scroll target=".card, .note"><div class="card"></div><p class="note"></p></classy-scroll><div class="card"></div><p class="note"></p>');
+		expect(getGhosts()).toHaveLength(2);
+	});
+
+	it('should re-emit enter and leave as events on the host', () => {
+		const host = mount('<classy-scroll persistent="false"><div></div></classy-scroll>');
+		const onEnter = vi.fn();
+		const onLeave = vi.fn();
+		host.addEventListener('enter', onEnter);
+		host.addEventListener('leave', onLeave);
+
+		triggerIntersect(getGhosts()[0], true);
+		triggerIntersect(getGhosts()[0], false);
+
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		expect(onEnter.mock.calls[0][0].detail.element).toBe(host.children[0]);
+		expect(onLeave).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not re-emit events of a nested element', () => {
+		const host = mount('<classy-scroll><section><classy-scroll><div></div></classy-scroll></section></classy-scroll>');
+		const inner = host.querySelector('classy-scroll')!;
+		const onOuterEnter = vi.fn();
+		const onInnerEnter = vi.fn();
+		host.addEventListener('enter', onOuterEnter);
+		inner.addEventListener('enter', onInnerEnter);
+
+		triggerIntersect(getGhosts()[1], true);
+		expect(onInnerEnter).toHaveBeenCalledTimes(1);
+		expect(onInnerEnter.mock.calls[0][0].detail.element).toBe(inner.children[0]);
+		expect(onOuterEnter).not.toHaveBeenCalled();
+
+		triggerIntersect(getGhosts()[0], true);
+		expect(onOuterEnter).toHaveBeenCalledTimes(1);
+		expect(onOuterEnter.mock.calls[0][0].detail.element).toBe(host.children[0]);
+	});
+
+	it('should re-emit impressions as events on the host', () => {
+		const host = mount('<classy-scroll dwell="500" dwell-threshold="0.25"><div></div></classy-scroll>');
+		const onImpression = vi.fn();
+		host.addEventListener('impression', onImpression);
+
+		vi.useFakeTimers();
+		triggerIntersect(getGhosts()[0], true, 0.3);
+		vi.advanceTimersByTime(500);
+		vi.useRealTimers();
+
+		expect(onImpression).toHaveBeenCalledTimes(1);
+		expect(onImpression.mock.calls[0][0].detail).toEqual({ element: host.children[0], visibleTime: 500 });
+	});
+
+	it('should leave the children to CSS with engine="css"', () => {
+		vi.stubGlobal('CSS', { supports: (condition: string) => condition === 'animation-timeline: view()' });
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const host = mount('<classy-scroll engine="css" persistent="false"><div></div></classy-scroll>');
+
+		expect(getGhosts()).toHaveLength(0);
+		expect(host.children[0].classList.contains('is-visible')).toBe(true);
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+		vi.stubGlobal('CSS', undefined);
+	});
+
+	it('should pick up children added later', async () => {
+		const host = mount('<classy-scroll></classy-scroll>');
+		host.appendChild(document.createElement('div'));
+		await Promise.resolve();
+
+		expect(getGhosts()).toHaveLength(1);
+	});
+
+	it('should reconfigure once when attributes change', async () => {
+		const host = mount('<classy-scroll threshold="0.2"><div></div></classy-scroll>');
+		host.setAttribute('threshold', '0.8');
+		host.setAttribute('add-class', 'shown');
+		await Promise.resolve();
+
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(1);
+		expect((getObserver(ghosts[0]) as unknown as IntersectionObserverMock).options?.threshold).toBe(0.8);
+		triggerIntersect(ghosts[0], true);
+		expect(host.children[0].classList.contains('shown')).toBe(true);
+	});
+
+	it('should warn about invalid numbers and keep the default', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		mount('<classy-scroll delay="soon"><div></div></classy-scroll>');
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('delay="soon"'), expect.anything());
+		warn.mockRestore();
+	});
+
+	it('should warn about unsupported choices and keep the default', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const host = mount('<classy-scroll stagger="100" stagger-ease="easeOut" engine="js"><div></div><div></div></classy-scroll>');
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('stagger-ease="easeOut"'), host);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('engine="js"'), host);
+		expect(() => triggerIntersectBatch(Array.from(getGhosts()), true)).not.toThrow();
+		warn.mockRestore();
+	});
+
+	it('should normalise the whitespace of class lists', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const host = mount('<classy-scroll add-class=" shown  big " remove-class="\thidden  " seen-class=" "><div class="hidden"></div></classy-scroll>');
+
+		triggerIntersect(getGhosts()[0], true);
+		expect(host.children[0].className).toBe('shown big');
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('seen-class=" "'), host);
+		warn.mockRestore();
+	});
+
+	it('should tear down when removed from the DOM', () => {
+		const host = mount('<classy-scroll><div></div></classy-scroll>');
+		expect(getGhosts()).toHaveLength(1);
+
+		host.remove();
+		expect(getGhosts()).toHaveLength(0);
+	});
+});
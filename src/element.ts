@@ -0,0 +1,137 @@
+/**
+ * `<classy-scroll>` custom element for pages that can only add HTML: it tracks its children
+ * (or the descendants matching `target`) with `classyScroll()`, configured through attributes.
+ */
+import { classyScroll, type ClassyScrollController, type ClassyScrollOptions } from './index';
+
+type AttributeParser = (value: string) => unknown;
+
+const toString: AttributeParser = value => value;
+const toClassList: AttributeParser = value => value.trim().replace(/\s+/g, ' ') || undefined;
+const toBoolean: AttributeParser = value => value !== 'false';
+const toNumber: AttributeParser = value => value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+const toOneOf = (...allowed: string[]): AttributeParser => value => allowed.includes(value.trim()) ? value.trim() : undefined;
+
+/**
+ * Host attributes and the option each one sets, in kebab-case.
+ * `class` belongs to the host itself, so the classes to add are set with `add-class`.
+ */
+const OPTION_ATTRIBUTES: Record<string, [keyof ClassyScrollOptions, AttributeParser]> = {
+	'add-class': ['class', toClassList],
+	'remove-class': ['removeClass', toClassList],
+	'threshold': ['threshold', toNumber],
+	'root': ['root', toString],
+	'root-margin': ['rootMargin', toString],
+	'persistent': ['persistent', toBoolean],
+	'target-class': ['targetClass', toClassList],
+	'active-group': ['activeGroup', toString],
+	'stagger': ['stagger', toNumber],
+	'stagger-group': ['staggerGroup', toOneOf('queue', 'batch', 'parent')],
+	'stagger-order': ['staggerOrder', toOneOf('arrival', 'position')],
+	'stagger-max': ['staggerMax', toNumber],
+	'stagger-ease': ['staggerEase', toOneOf('linear', 'ease-in', 'ease-out', 'ease-in-out')],
+	'delay': ['delay', toNumber],
+	'reduced-motion': ['reducedMotion', toOneOf('instant', 'respect-delays', 'reveal-all-immediately')],
+	'progress': ['progress', toBoolean],
+	'tracking': ['tracking', toOneOf('ghost', 'direct', 'auto')],
+	'engine': ['engine', toOneOf('auto', 'observer', 'css')],
+	'hydrate': ['hydrate', toBoolean],
+	'fallback': ['fallback', toOneOf('reveal-all', 'scroll-polling', 'none')],
+	'print': ['print', value => value === 'restore' ? value : toBoolean(value)],
+	'hash': ['hash', toBoolean],
+	'debug': ['debug', toBoolean],
+	'direction': ['direction', toBoolean],
+	'dwell': ['dwell', toNumber],
+	'dwell-threshold': ['dwellThreshold', toNumber],
+	'seen-class': ['seenClass', toClassList],
+	'events': ['events', toBoolean],
+};
+
+/** The bubbling `cs:*` events of the tracked elements, re-dispatched on the host without the prefix. */
+const RELAYED_EVENTS = ['cs:enter', 'cs:leave', 'cs:impression'];
+
+let lastScope = 0;
+
+// Lets the module be imported during server-side rendering, where `HTMLElement` doesn't exist.
+const Base = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+/**
+ * Dispatches `enter`, `leave` and `impression` CustomEvents on itself, with the hook event as `detail`.
+ * They are relayed from the `cs:*` events rather than hooks, so the instance can still use `engine="css"`.
+ * Attribute changes rebuild the instance; removing the element destroys it.
+ */
+export class ClassyScrollElement extends Base {
+	static get observedAttributes() {
+		return [...Object.keys(OPTION_ATTRIBUTES), 'target'];
+	}
+
+	private controller: ClassyScrollController | null = null;
+	private isReconfiguring = false;
+	private selector = '';
+
+	connectedCallback() {
+		this.dataset.csScope ??= String(++lastScope);
+		RELAYED_EVENTS.forEach(type => this.addEventListener(type, this.relay));
+		this.setup();
+	}
+
+	disconnectedCallback() {
+		RELAYED_EVENTS.forEach(type => this.removeEventListener(type, this.relay));
+		this.controller?.destroy();
+		this.controller = null;
+	}
+
+	/** Skips events bubbling up from a nested `<classy-scroll>` that this instance doesn't track. */
+	private relay = (event: Event) => {
+		if (!(event.target as Element).matches(this.selector)) return;
+		this.dispatchEvent(new CustomEvent(event.type.slice(3), { detail: (event as CustomEvent).detail }));
+	};
+
+	/** Batches changes made in the same task into a single rebuild. */
+	attributeChangedCallback() {
+		if (!this.controller || this.isReconfiguring) return;
+		this.isReconfiguring = true;
+
+		queueMicrotask(() => {
+			this.isReconfiguring = false;
+			if (!this.controller) return;
+			this.controller.destroy();
+			this.setup();
+		});
+	}
+
+	/** The options currently set through attributes. */
+	getOptions(): ClassyScrollOptions {
+		const options: Record<string, unknown> = {};
+
+		Object.entries(OPTION_ATTRIBUTES).forEach(([attribute, [option, parse]]) => {
+			const value = this.getAttribute(attribute);
+			if (value === null) return;
+
+			const parsed = parse(value);
+			if (parsed === undefined) {
+				console.warn(`[classy-scroll] Ignoring invalid ${attribute}="${value}" on <${this.localName}>.`, this);
+			} else {
+				options[option] = parsed;
+			}
+		});
+
+		return options as ClassyScrollOptions;
+	}
+
+	private setup() {
+		// A selector scoped to this element, so `watch` also picks up children added later.
+		const scope = `[data-cs-scope="${this.dataset.csScope}"]`;
+		const target = this.getAttribute('target');
+		// `:is()` scopes every selector of a list, not just the first.
+		this.selector = target ? `${scope} :is(${target})` : `${scope} > *`;
+
+		this.controller = classyScroll(this.selector, { ...this.getOptions(), watch: this });
+	}
+}
+
+/** Registers the custom element, by default as `<classy-scroll>`. Safe to call more than once and without a DOM. */
+export const defineClassyScrollElement = (tagName = 'classy-scroll') => {
+	if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+	customElements.define(tagName, class extends ClassyScrollElement {});
+};
@@ -1,23 +1,30 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { classyScroll } from './index';
-import { triggerIntersect, intersectionObservers, getObserver } from '../test/setup';
+import { classyScroll, autoInit, type ClassyScrollEvent } from './index';
+import { triggerIntersect, triggerIntersectBatch, triggerResize, intersectionObservers, getObserver, IntersectionObserverMock, ResizeObserverMock } from '../test/setup';
+
+// Ghosts are scrubbed of identifying attributes, so remember which element each clone came from.
+const cloneSources = new WeakMap<Node, Node>();
+const cloneNode = Node.prototype.cloneNode;
+vi.spyOn(Node.prototype, 'cloneNode').mockImplementation(function (this: Node, deep?: boolean) {
+	const clone = cloneNode.call(this, deep);
+	cloneSources.set(clone, this);
+	return clone;
+});
 
 describe('classyScroll', () => {
 	let container: HTMLElement;
-	let testIdCounter = 0;
 
 	const createElement = (className = '') => {
 		const el = document.createElement('div');
 		el.className = className;
-		el.dataset.testid = `test-${testIdCounter++}`;
 		container.appendChild(el);
 		return el;
 	};
 
-	const getGhost = (element: HTMLElement) => {
-		const testId = element.dataset.testid;
-		return document.querySelector(`[data-testid="${testId}"][data-cs-ghost="true"]`) as HTMLElement;
-	};
+	const getGhosts = (element?: HTMLElement) => Array.from(document.querySelectorAll<HTMLElement>('[data-cs-ghost="true"]'))
+		.filter(ghost => !element || cloneSources.get(ghost) === element);
+
+	const getGhost = (element: HTMLElement) => getGhosts(element)[0] ?? null;
 
 	beforeEach(() => {
 		container = document.createElement('div');
@@ -48,6 +55,7 @@ describe('classyScroll', () => {
 				moveTo: vi.fn(),
 				lineTo: vi.fn(),
 				stroke: vi.fn(),
+				strokeRect: vi.fn(),
 				measureText: vi.fn(() => ({ width: 50 })),
 				scale: vi.fn(),
 				setLineDash: vi.fn(),
@@ -173,6 +181,118 @@ describe('classyScroll', () => {
 		expect(element3.classList.contains('visible')).toBe(true);
 	});
 
+	it('should start a separate sequence per batch or parent container', () => {
+		const [a1, a2] = [createElement(), createElement()];
+		const otherContainer = document.createElement('div');
+		container.appendChild(otherContainer);
+		const [b1, b2] = [document.createElement('div'), document.createElement('div')];
+		otherContainer.append(b1, b2);
+		const byParent = classyScroll([a1, a2, b1, b2], { stagger: 100, staggerGroup: 'parent' });
+
+		triggerIntersectBatch([a1, b1].map(getGhost), true);
+		triggerIntersectBatch([a2, b2].map(getGhost), true);
+		expect([a1, a2, b1, b2].map(element => element.classList.contains('is-visible'))).toEqual([true, false, true, false]);
+
+		vi.advanceTimersByTime(100);
+		expect(a2.classList.contains('is-visible')).toBe(true);
+		expect(b2.classList.contains('is-visible')).toBe(true);
+		byParent.destroy();
+
+		const [c1, c2, c3] = [createElement(), createElement(), createElement()];
+		const byBatch = classyScroll([c1, c2, c3], { stagger: 100, staggerGroup: 'batch' });
+		triggerIntersectBatch([c1, c2].map(getGhost), true);
+		triggerIntersect(getGhost(c3), true);
+		expect([c1, c2, c3].map(element => element.classList.contains('is-visible'))).toEqual([true, false, true]);
+		byBatch.destroy();
+	});
+
+	it('should order a batch by position and compress it into staggerMax', () => {
+		const positions = [[100, 200], [0, 100], [0, 0], [100, 0]];
+		const elements = positions.map(([top, left]) => {
+			const element = createElement();
+			element.getBoundingClientRect = () => ({ top, left, width: 50, height: 50 }) as DOMRect;
+			return element;
+		});
+		const revealed: HTMLElement[] = [];
+		const { destroy } = classyScroll(elements, {
+			stagger: 100,
+			staggerOrder: 'position',
+			staggerMax: 150,
+			staggerEase: 'ease-in',
+			onEnter: ({ element }) => revealed.push(element),
+		});
+
+		triggerIntersectBatch(elements.map(getGhost), true);
+		expect(revealed).toEqual([elements[2]]);
+
+		// Offsets 0/100/200/300 are compressed to 0/50/100/150, then eased to 0/17/67/150.
+		vi.advanceTimersByTime(17);
+		expect(revealed).toEqual([elements[2], elements[1]]);
+		vi.advanceTimersByTime(50);
+		expect(revealed).toEqual([elements[2], elements[1], elements[3]]);
+		vi.advanceTimersByTime(83);
+		expect(revealed).toEqual([elements[2], elements[1], elements[3], elements[0]]);
+
+		destroy();
+	});
+
+	it('should keep consecutive batches of a queue within staggerMax', () => {
+		const elements = Array.from({ length: 20 }, () => createElement());
+		const revealed: HTMLElement[] = [];
+		const { destroy } = classyScroll(elements, {
+			stagger: 100,
+			staggerMax: 300,
+			onEnter: ({ element }) => revealed.push(element),
+		});
+
+		for (let index = 0; index < 20; index += 5) {
+			triggerIntersectBatch(elements.slice(index, index + 5).map(getGhost), true);
+			vi.advanceTimersByTime(10);
+		}
+
+		// The last batch arrived 10ms ago, so everything is revealed within staggerMax of it.
+		vi.advanceTimersByTime(289);
+		expect(revealed.length).toBeLessThan(20);
+		vi.advanceTimersByTime(1);
+		expect(revealed).toEqual(elements);
+
+		destroy();
+	});
+
+	it('should time overlapping batches independently within staggerMax', () => {
+		const first = Array.from({ length: 4 }, () => createElement());
+		const second = Array.from({ length: 7 }, () => createElement());
+		const revealedAt = new Map<HTMLElement, number>();
+		const start = Date.now();
+		const { destroy } = classyScroll([...first, ...second], {
+			stagger: 100,
+			staggerMax: 300,
+			staggerGroup: 'batch',
+			onEnter: ({ element }) => revealedAt.set(element, Date.now() - start),
+		});
+
+		triggerIntersectBatch(first.map(getGhost), true);
+		vi.advanceTimersByTime(10);
+		triggerIntersectBatch(second.map(getGhost), true);
+		vi.advanceTimersByTime(300);
+
+		// The first batch already fits, so it isn't compressed along with the second.
+		expect(first.map(element => revealedAt.get(element))).toEqual([0, 100, 200, 300]);
+		expect(second.map(element => revealedAt.get(element))).toEqual([10, 60, 110, 160, 210, 260, 310]);
+
+		destroy();
+	});
+
+	it('should cancel the stagger queue on destroy', () => {
+		const elements = [createElement(), createElement()];
+		const { destroy } = classyScroll(elements, { stagger: 100 });
+
+		triggerIntersectBatch(elements.map(getGhost), true);
+		destroy();
+		expect(vi.getTimerCount()).toBe(0);
+		expect(elements[1].classList.contains('is-visible')).toBe(false);
+	});
+
 	it('should disable stagger and delay if prefers-reduced-motion matches', () => {
 		window.matchMedia = vi.fn().mockImplementation(query => ({
 			matches: query === '(prefers-reduced-motion: reduce)',
@@ -192,6 +312,150 @@ describe('classyScroll', () => {
 		expect(element2.classList.contains('visible')).toBe(true);
 	});
 
+	describe('reduced motion', () => {
+		/** Installs a controllable `(prefers-reduced-motion: reduce)` query and returns a function that flips it. */
+		const mockMotionQuery = (matches: boolean) => {
+			const listeners = new Set<(event: MediaQueryListEvent) => void>();
+			const query = {
+				matches,
+				addEventListener: vi.fn((_: string, listener: (event: MediaQueryListEvent) => void) => listeners.add(listener)),
+				removeEventListener: vi.fn((_: string, listener: (event: MediaQueryListEvent) => void) => listeners.delete(listener)),
+			};
+			window.matchMedia = vi.fn(() => query) as unknown as typeof window.matchMedia;
+
+			return (reduce: boolean) => {
+				query.matches = reduce;
+				listeners.forEach(listener => listener({ matches: reduce } as MediaQueryListEvent));
+			};
+		};
+
+		it('should flush queued and delayed elements when reduced motion is switched on', () => {
+			const setReducedMotion = mockMotionQuery(false);
+			const delayed = createElement();
+			delayed.dataset.csStagger = '0';
+			const [first, second, third] = [createElement(), createElement(), createElement()];
+			const { destroy } = classyScroll([first, second, third], { stagger: 100 });
+			classyScroll(delayed, { delay: 500 });
+
+			[first, second, third, delayed].forEach(element => triggerIntersect(getGhost(element), true));
+			expect(first.classList.contains('is-visible')).toBe(true);
+			expect(second.classList.contains('is-visible')).toBe(false);
+			expect(delayed.classList.contains('is-visible')).toBe(false);
+
+			setReducedMotion(true);
+			[second, third, delayed].forEach(element => expect(element.classList.contains('is-visible')).toBe(true));
+			expect(first.classList.contains('cs-reduced-motion')).toBe(true);
+
+			setReducedMotion(false);
+			expect(first.classList.contains('cs-reduced-motion')).toBe(false);
+
+			destroy();
+			expect(window.matchMedia('').removeEventListener).toHaveBeenCalled();
+		});
+
+		it('should keep delays with the respect-delays policy', () => {
+			mockMotionQuery(true);
+			const element = createElement();
+			classyScroll(element, { delay: 200, reducedMotion: 'respect-delays' });
+
+			expect(element.classList.contains('cs-reduced-motion')).toBe(true);
+			triggerIntersect(getGhost(element), true);
+			expect(element.classList.contains('is-visible')).toBe(false);
+
+			vi.advanceTimersByTime(200);
+			expect(element.classList.contains('is-visible')).toBe(true);
+		});
+
+		it('should reveal every target at once with the reveal-all-immediately policy', () => {
+			const setReducedMotion = mockMotionQuery(false);
+			const element = createElement('card hidden');
+			const { destroy } = classyScroll(element, { removeClass: 'hidden', persistent: false, reducedMotion: 'reveal-all-immediately' });
+			const ghost = getGhost(element);
+			expect(element.classList.contains('is-visible')).toBe(false);
+
+			setReducedMotion(true);
+			expect(element.className).toBe('card cs-reduced-motion is-visible');
+			expect(getObserver(ghost)).toBeUndefined();
+
+			setReducedMotion(false);
+			expect(getObserver(ghost)).toBeDefined();
+			triggerIntersect(ghost, false);
+			expect(element.className).toBe('card hidden');
+
+			destroy();
+		});
+
+		it('should only leave CSS-driven elements to the view timeline with the respect-delays policy', () => {
+			vi.stubGlobal('CSS', { supports: (condition: string) => condition === 'animation-timeline: view()' });
+			const setReducedMotion = mockMotionQuery(true);
+			const respected = createElement();
+			const revealed = createElement();
+			const first = classyScroll(respected, { engine: 'auto', persistent: false, reducedMotion: 'respect-delays' });
+			expect(getGhosts(respected)).toHaveLength(0);
+			expect(respected.classList.contains('cs-reduced-motion')).toBe(true);
+
+			setReducedMotion(false);
+			const second = classyScroll(revealed, { engine: 'auto', persistent: false, reducedMotion: 'reveal-all-immediately' });
+			expect(respected.classList.contains('cs-reduced-motion')).toBe(false);
+			expect(revealed.style.getPropertyValue('animation-timeline')).not.toBe('');
+
+			setReducedMotion(true);
+			expect(respected.style.getPropertyValue('animation-timeline')).not.toBe('');
+			expect(respected.classList.contains('cs-reduced-motion')).toBe(true);
+			expect(revealed.style.getPropertyValue('animation-timeline')).toBe('');
+			expect(revealed.className).toBe('is-visible cs-reduced-motion');
+			expect(revealed.dataset.csEngine).toBeUndefined();
+			expect(getObserver(getGhost(revealed))).toBeUndefined();
+
+			first.destroy();
+			second.destroy();
+			expect(respected.classList.contains('cs-reduced-motion')).toBe(false);
+			vi.stubGlobal('CSS', undefined);
+		});
+
+		it('should apply the timing returned by a custom policy', () => {
+			mockMotionQuery(true);
+			const policy = vi.fn((_: HTMLElement, { delay }: { delay: number; stagger: number }) => ({ delay: delay / 2, stagger: 0 }));
+			const element = createElement();
+			classyScroll(element, { delay: 400, stagger: 100, reducedMotion: policy });
+
+			triggerIntersect(getGhost(element), true);
+			expect(policy).toHaveBeenCalledWith(element, { delay: 400, stagger: 100 });
+
+			vi.advanceTimersByTime(199);
+			expect(element.classList.contains('is-visible')).toBe(false);
+			vi.advanceTimersByTime(1);
+			expect(element.classList.contains('is-visible')).toBe(true);
+		});
+
+		it('should re-time the stagger queue under a custom policy in both directions', () => {
+			const setReducedMotion = mockMotionQuery(false);
+			const isVisible = (elements: HTMLElement[]) => elements.map(element => element.classList.contains('is-visible'));
+			const fast = [createElement(), createElement(), createElement()];
+			const slow = [createElement(), createElement(), createElement()];
+			const first = classyScroll(fast, { stagger: 1000, reducedMotion: () => ({ delay: 0, stagger: 0 }) });
+			const second = classyScroll(slow, { stagger: 100, reducedMotion: () => ({ delay: 0, stagger: 1000 }) });
+
+			triggerIntersectBatch(fast.map(getGhost), true);
+			expect(isVisible(fast)).toEqual([true, false, false]);
+			setReducedMotion(true);
+			vi.advanceTimersByTime(10);
+			expect(isVisible(fast)).toEqual([true, true, true]);
+
+			triggerIntersectBatch(slow.map(getGhost), true);
+			expect(isVisible(slow)).toEqual([true, false, false]);
+			setReducedMotion(false);
+			expect(isVisible(slow)).toEqual([true, true, false]);
+			vi.advanceTimersByTime(99);
+			expect(isVisible(slow)).toEqual([true, true, false]);
+			vi.advanceTimersByTime(1);
+			expect(isVisible(slow)).toEqual([true, true, true]);
+
+			first.destroy();
+			second.destroy();
+		});
+	});
+
 	it('should handle debug mode rendering and cleanup', () => {
 		const element = createElement();
 		const { destroy } = classyScroll([element], { debug: true, rootMargin: '10px 0px -10% 0px' });
@@ -212,7 +476,7 @@ describe('classyScroll', () => {
 
 		classyScroll([element], { callback });
 		triggerIntersect(getGhost(element), true);
-		expect(callback).toHaveBeenCalledWith(element);
+		expect(callback).toHaveBeenCalledWith(element, { edge: 'bottom', direction: 'down' });
 	});
 
 	it('should clean up timeouts on destroy/leave', () => {
@@ -237,4 +501,1748 @@ describe('classyScroll', () => {
 		triggerIntersect(getGhost(element), false);
 		expect(element.classList.contains('is-visible')).toBe(false);
 	});
+
+	it('should add and remove targets through the controller', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const controller = classyScroll([element1], { class: 'visible' });
+
+		expect(getGhost(element2)).toBeNull();
+
+		controller.add(element2);
+		controller.add(element2);
+		expect(getGhosts(element2)).toHaveLength(1);
+
+		triggerIntersect(getGhost(element2), true);
+		expect(element2.classList.contains('visible')).toBe(true);
+
+		const ghost = getGhost(element1);
+		controller.remove([element1]);
+		expect(ghost.isConnected).toBe(false);
+		expect(getObserver(ghost)).toBeUndefined();
+
+		controller.destroy();
+	});
+
+	it('should dequeue and cancel pending work for removed targets', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const element3 = createElement();
+		element3.dataset.csDelay = '100';
+		const controller = classyScroll([element1, element2, element3], { class: 'visible', stagger: 100 });
+
+		triggerIntersect(getGhost(element1), true);
+		triggerIntersect(getGhost(element2), true);
+		controller.remove(element2);
+
+		vi.advanceTimersByTime(200);
+		expect(element2.classList.contains('visible')).toBe(false);
+
+		triggerIntersect(getGhost(element3), true);
+		vi.advanceTimersByTime(50);
+		controller.remove(element3);
+		vi.advanceTimersByTime(200);
+		expect(element3.classList.contains('visible')).toBe(false);
+
+		controller.destroy();
+	});
+
+	it('should pick up new matches and prune detached elements on refresh', () => {
+		const element1 = createElement('refresh-item');
+		const controller = classyScroll('.refresh-item');
+		const staleGhost = getGhost(element1);
+
+		const element2 = createElement('refresh-item');
+		container.removeChild(element1);
+		controller.refresh();
+
+		expect(staleGhost.isConnected).toBe(false);
+		expect(getGhost(element1)).toBeNull();
+		expect(getObserver(getGhost(element2))).toBeDefined();
+
+		controller.destroy();
+	});
+
+	it('should not re-add removed elements on refresh', () => {
+		const [first, second] = [createElement(), createElement()];
+		const controller = classyScroll([first, second]);
+
+		controller.remove(first);
+		controller.refresh();
+
+		expect(getGhost(first)).toBeNull();
+		expect(getGhost(second)).not.toBeNull();
+		controller.destroy();
+
+		first.className = 'card';
+		second.className = 'card';
+		const bySelector = classyScroll('.card');
+		bySelector.remove(first);
+		bySelector.refresh();
+		expect(getGhost(first)).toBeNull();
+
+		bySelector.add(first);
+		expect(getGhost(first)).not.toBeNull();
+		bySelector.destroy();
+	});
+
+	it('should re-measure ghosts in place on refresh', () => {
+		const element = createElement();
+		const controller = classyScroll(element);
+		const ghost = getGhost(element);
+
+		element.getBoundingClientRect = () => ({ top: 250, left: 10, width: 80, height: 40 }) as DOMRect;
+		controller.refresh();
+
+		expect(getGhost(element)).toBe(ghost);
+		expect(ghost.style.top).toBe('250px');
+		expect(ghost.style.height).toBe('40px');
+		expect(getObserver(ghost)).toBeDefined();
+
+		controller.destroy();
+	});
+
+	it('should register added nodes and clean up removed ones in watch mode', async () => {
+		const controller = classyScroll('.watched', { watch: true });
+
+		const wrapper = document.createElement('section');
+		const nested = document.createElement('div');
+		nested.className = 'watched';
+		wrapper.appendChild(nested);
+		const direct = createElement('watched');
+		container.appendChild(wrapper);
+		container.appendChild(document.createTextNode('text'));
+		await Promise.resolve();
+
+		expect(getObserver(getGhost(direct))).toBeDefined();
+		expect(getObserver(getGhost(nested))).toBeDefined();
+		expect(getGhosts()).toHaveLength(2);
+
+		const ghost = getGhost(direct);
+		container.removeChild(direct);
+		await Promise.resolve();
+
+		expect(ghost.isConnected).toBe(false);
+
+		controller.destroy();
+		createElement('watched');
+		await Promise.resolve();
+		expect(getGhosts()).toHaveLength(0);
+	});
+
+	it('should keep removed elements out when they move inside the watched scope', async () => {
+		const element = createElement('watched');
+		const box = createElement();
+		const controller = classyScroll('.watched', { watch: true });
+
+		controller.remove(element);
+		box.appendChild(element);
+		await Promise.resolve();
+		expect(controller.getState().has(element)).toBe(false);
+
+		controller.add(element);
+		expect(controller.getState().has(element)).toBe(true);
+
+		controller.destroy();
+	});
+
+	it('should scope watch mode to a container', async () => {
+		const scope = document.createElement('div');
+		scope.id = 'watch-scope';
+		container.appendChild(scope);
+		const controller = classyScroll('.scoped', { watch: '#watch-scope' });
+
+		const outside = createElement('scoped');
+		const inside = document.createElement('div');
+		inside.className = 'scoped';
+		scope.appendChild(inside);
+		await Promise.resolve();
+
+		expect(getGhost(inside)).toBeTruthy();
+		expect(getGhost(outside)).toBeNull();
+
+		controller.destroy();
+	});
+
+	it('should only prune removed nodes when watching non-selector targets', async () => {
+		const element = createElement();
+		const controller = classyScroll([element], { watch: container });
+
+		createElement();
+		await Promise.resolve();
+		expect(getGhosts()).toHaveLength(1);
+
+		const ghost = getGhost(element);
+		container.removeChild(element);
+		await Promise.resolve();
+		expect(ghost.isConnected).toBe(false);
+
+		controller.destroy();
+	});
+
+	it('should ignore a watch selector that matches nothing', () => {
+		const controller = classyScroll('.anything', { watch: '#missing-scope' });
+		expect(controller.destroy).toBeTypeOf('function');
+		controller.destroy();
+	});
+
+	it('should place ghosts inside a custom root and observe against it', () => {
+		const scroller = document.createElement('div');
+		container.appendChild(scroller);
+		const element = document.createElement('div');
+		scroller.appendChild(element);
+
+		scroller.getBoundingClientRect = () => ({ top: 100, left: 50 }) as DOMRect;
+		element.getBoundingClientRect = () => ({ top: 150, left: 70, width: 40, height: 20 }) as DOMRect;
+		scroller.scrollTop = 300;
+		scroller.scrollLeft = 10;
+
+		const { destroy } = classyScroll(element, { root: scroller });
+		const ghost = getGhost(element);
+
+		expect(ghost.parentElement).toBe(scroller);
+		expect(ghost.style.top).toBe('350px');
+		expect(ghost.style.left).toBe('30px');
+		expect(scroller.style.position).toBe('relative');
+		expect((getObserver(ghost) as unknown as IntersectionObserverMock).options?.root).toBe(scroller);
+
+		destroy();
+		expect(scroller.style.position).toBe('');
+	});
+
+	it('should keep the root positioned until the last instance on it is destroyed', () => {
+		const scroller = document.createElement('div');
+		container.appendChild(scroller);
+		const [first, second] = [document.createElement('div'), document.createElement('div')];
+		scroller.append(first, second);
+
+		const a = classyScroll(first, { root: scroller });
+		const b = classyScroll(second, { root: scroller });
+		a.destroy();
+		a.destroy();
+		expect(scroller.style.position).toBe('relative');
+
+		b.destroy();
+		expect(scroller.style.position).toBe('');
+	});
+
+	it('should resolve the root from a selector and keep positioned containers untouched', () => {
+		const scroller = document.createElement('div');
+		scroller.id = 'panel';
+		scroller.style.position = 'absolute';
+		container.appendChild(scroller);
+		const element = document.createElement('div');
+		scroller.appendChild(element);
+
+		const { destroy } = classyScroll(element, { root: '#panel' });
+
+		expect(getGhost(element).parentElement).toBe(scroller);
+		expect(scroller.style.position).toBe('absolute');
+
+		destroy();
+		expect(scroller.style.position).toBe('absolute');
+	});
+
+	it('should draw the debug overlay against the root bounds', () => {
+		const scroller = document.createElement('div');
+		container.appendChild(scroller);
+		const element = document.createElement('div');
+		scroller.appendChild(element);
+		scroller.getBoundingClientRect = () => ({ top: 100, left: 50 }) as DOMRect;
+		element.getBoundingClientRect = () => ({ top: 120, left: 50, width: 40, height: 20 }) as DOMRect;
+		Object.defineProperty(scroller, 'clientWidth', { value: 300 });
+		Object.defineProperty(scroller, 'clientHeight', { value: 200 });
+
+		const { destroy } = classyScroll(element, { root: scroller, debug: true, persistent: false });
+		const ctx = (HTMLCanvasElement.prototype.getContext as ReturnType<typeof vi.fn>).mock.results[0].value;
+
+		vi.advanceTimersByTime(16);
+		expect(ctx.moveTo).toHaveBeenCalledWith(50, 100);
+		expect(ctx.lineTo).toHaveBeenCalledWith(350, 300);
+		expect(ctx.fillRect).toHaveBeenCalledWith(230, 122, 120, 2);
+		expect(ctx.strokeRect).toHaveBeenCalledWith(50, 120, 40, 20);
+
+		destroy();
+	});
+
+	describe('debug overlay', () => {
+		const getContext = () => (HTMLCanvasElement.prototype.getContext as ReturnType<typeof vi.fn>).mock.results[0].value;
+
+		it('should share one canvas between instances, with a coloured legend line each', () => {
+			const cards = classyScroll(createElement(), { debug: true });
+			const heroes = classyScroll([createElement(), createElement()], { debug: true, delay: 100 });
+			expect(document.querySelectorAll('canvas')).toHaveLength(1);
+
+			const ctx = getContext();
+			vi.advanceTimersByTime(16);
+			const labels = ctx.fillText.mock.calls.map(([text]: [string]) => text);
+			expect(labels).toContain('Element: 1 pending · 0 queued · 0 delayed · 0 active');
+			expect(labels).toContain('Element: 2 pending · 0 queued · 0 delayed · 0 active');
+			const swatches = ctx.fillRect.mock.calls.filter(([x, , width]: number[]) => x === 14 && width === 8);
+			expect(swatches).toHaveLength(2);
+
+			cards.destroy();
+			expect(document.querySelectorAll('canvas')).toHaveLength(1);
+			heroes.destroy();
+			expect(document.querySelector('canvas')).toBeNull();
+		});
+
+		it('should only redraw on scroll, resize or state changes', () => {
+			const element = createElement();
+			const { destroy } = classyScroll(element, { debug: true, delay: 100 });
+			const ctx = getContext();
+			vi.advanceTimersByTime(16);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(1);
+
+			vi.advanceTimersByTime(1000);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(1);
+
+			window.dispatchEvent(new Event('scroll'));
+			container.dispatchEvent(new Event('scroll'));
+			vi.advanceTimersByTime(16);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(2);
+
+			triggerIntersect(getGhost(element), true);
+			vi.advanceTimersByTime(16);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(3);
+			expect(ctx.strokeStyle).toBe('rgba(245, 158, 11, 0.9)');
+
+			destroy();
+		});
+
+		it('should toggle with Alt+Shift+D', () => {
+			const { destroy } = classyScroll(createElement(), { debug: true });
+			const canvas = document.querySelector('canvas')!;
+			const ctx = getContext();
+			vi.advanceTimersByTime(16);
+
+			window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyD', altKey: true, shiftKey: true }));
+			expect(canvas.style.display).toBe('none');
+			window.dispatchEvent(new Event('scroll'));
+			vi.advanceTimersByTime(16);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(1);
+
+			window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyD', altKey: true, shiftKey: true }));
+			expect(canvas.style.display).toBe('');
+			vi.advanceTimersByTime(16);
+			expect(ctx.clearRect).toHaveBeenCalledTimes(2);
+
+			destroy();
+		});
+
+		it('should resolve two-value and horizontal root margins', () => {
+			window.innerWidth = 1000;
+			window.innerHeight = 1000;
+			const { destroy } = classyScroll(createElement(), { debug: true, rootMargin: '10% 20px' });
+			const ctx = getContext();
+			vi.advanceTimersByTime(16);
+
+			expect(ctx.moveTo).toHaveBeenCalledWith(-20, -100);
+			expect(ctx.lineTo).toHaveBeenCalledWith(1020, -100);
+			expect(ctx.moveTo).toHaveBeenCalledWith(-20, 1100);
+			expect(ctx.lineTo).toHaveBeenCalledWith(-20, 1100);
+			expect(ctx.lineTo).toHaveBeenCalledWith(1020, 1100);
+
+			destroy();
+		});
+	});
+
+	it('should apply stage classes by intersection ratio', () => {
+		const element = createElement();
+		const callback = vi.fn();
+		const { destroy } = classyScroll(element, {
+			persistent: false,
+			callback,
+			stages: [
+				{ threshold: 1, class: 'is-complete' },
+				{ threshold: 0.1, class: 'is-peeking' },
+				{ threshold: 0.5, class: 'is-visible is-half' },
+			],
+		});
+		const ghost = getGhost(element);
+
+		expect((getObserver(ghost) as unknown as IntersectionObserverMock).options?.threshold).toEqual([0.1, 0.5, 1]);
+
+		triggerIntersect(ghost, true, 0.6);
+		expect(element.classList.contains('is-peeking')).toBe(true);
+		expect(element.classList.contains('is-half')).toBe(true);
+		expect(element.classList.contains('is-complete')).toBe(false);
+		expect(callback).toHaveBeenCalledTimes(2);
+
+		triggerIntersect(ghost, true, 0.2);
+		expect(element.classList.contains('is-visible')).toBe(false);
+		expect(element.classList.contains('is-peeking')).toBe(true);
+
+		triggerIntersect(ghost, false);
+		expect(element.className).toBe('');
+		expect(getObserver(ghost)).toBeDefined();
+
+		destroy();
+	});
+
+	it('should honour persistence per stage and unobserve once every stage is settled', () => {
+		const element = createElement();
+		const { destroy } = classyScroll(element, {
+			stages: [
+				{ threshold: 0.1, class: 'is-peeking', persistent: false },
+				{ threshold: 0.5, class: 'is-visible' },
+			],
+		});
+		const ghost = getGhost(element);
+
+		triggerIntersect(ghost, true, 0.6);
+		triggerIntersect(ghost, false);
+		expect(element.classList.contains('is-peeking')).toBe(false);
+		expect(element.classList.contains('is-visible')).toBe(true);
+		expect(getObserver(ghost)).toBeDefined();
+
+		destroy();
+
+		const persistentElement = createElement();
+		const { destroy: destroyPersistent } = classyScroll(persistentElement, {
+			stages: [{ threshold: 0.5, class: 'is-visible' }],
+		});
+		const persistentGhost = getGhost(persistentElement);
+
+		triggerIntersect(persistentGhost, true, 0.6);
+		expect(getObserver(persistentGhost)).toBeUndefined();
+
+		destroyPersistent();
+	});
+
+	it('should strip every stage class from ghosts', () => {
+		const element = createElement('is-peeking is-visible keep');
+		const { destroy } = classyScroll(element, {
+			stages: [{ threshold: 0.1, class: 'is-peeking' }, { threshold: 0.5, class: 'is-visible' }],
+		});
+
+		expect(getGhost(element).className).toBe('keep');
+		destroy();
+	});
+
+	it('should draw one debug line per stage', () => {
+		const element = createElement();
+		element.getBoundingClientRect = () => ({ top: 100, left: 0, width: 100, height: 100 }) as DOMRect;
+		const { destroy } = classyScroll(element, {
+			debug: true,
+			persistent: false,
+			stages: [{ threshold: 0.1, class: 'is-peeking' }, { threshold: 0.5, class: 'is-visible' }],
+		});
+		const ctx = (HTMLCanvasElement.prototype.getContext as ReturnType<typeof vi.fn>).mock.results[0].value;
+
+		vi.advanceTimersByTime(16);
+		const labels = ctx.fillText.mock.calls.map(([text]: [string]) => text);
+		expect(labels).toContain('[Element] Enter: 10% (is-peeking)');
+		expect(labels).toContain('[Element] Enter: 50% (is-visible)');
+		expect(labels).toContain('[Element] Exit: 50% (is-visible)');
+
+		destroy();
+	});
+
+	it('should write scroll progress as a custom property', () => {
+		window.innerHeight = 1000;
+		window.scrollY = 0;
+		const element = createElement();
+		element.getBoundingClientRect = () => ({ top: 1500, left: 0, width: 100, height: 200 }) as DOMRect;
+		const { destroy } = classyScroll(element, { progress: true });
+
+		vi.advanceTimersByTime(16);
+		expect(element.style.getPropertyValue('--cs-progress')).toBe('0');
+
+		window.scrollY = 1100;
+		window.dispatchEvent(new Event('scroll'));
+		window.dispatchEvent(new Event('scroll'));
+		expect(requestAnimationFrame).toHaveBeenCalledTimes(2);
+
+		vi.advanceTimersByTime(16);
+		expect(element.style.getPropertyValue('--cs-progress')).toBe('0.5');
+
+		window.scrollY = 5000;
+		window.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(element.style.getPropertyValue('--cs-progress')).toBe('1');
+
+		const setProperty = vi.spyOn(element.style, 'setProperty');
+		window.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(setProperty).not.toHaveBeenCalled();
+
+		destroy();
+		window.dispatchEvent(new Event('scroll'));
+		expect(requestAnimationFrame).toHaveBeenCalledTimes(4);
+		window.scrollY = 0;
+		window.innerHeight = 768;
+	});
+
+	it('should measure progress against the root margins and a custom root', () => {
+		const scroller = document.createElement('div');
+		container.appendChild(scroller);
+		const element = document.createElement('div');
+		scroller.appendChild(element);
+		Object.defineProperty(scroller, 'clientHeight', { value: 400 });
+		element.getBoundingClientRect = () => ({ top: 400, left: 0, width: 100, height: 0 }) as DOMRect;
+
+		const { destroy } = classyScroll(element, { progress: true, root: scroller, rootMargin: '100px 0px' });
+
+		scroller.scrollTop = 300;
+		scroller.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(element.style.getPropertyValue('--cs-progress')).toBe('0.6667');
+
+		destroy();
+	});
+
+	it('should skip progress work when the option is off', () => {
+		const element = createElement();
+		const { destroy } = classyScroll(element);
+
+		window.dispatchEvent(new Event('scroll'));
+		expect(requestAnimationFrame).not.toHaveBeenCalled();
+		expect(element.style.getPropertyValue('--cs-progress')).toBe('');
+
+		destroy();
+	});
+
+	it('should expose entry and exit edges as classes and data-cs-direction', () => {
+		const element = createElement();
+		const callback = vi.fn();
+		const { destroy } = classyScroll(element, { persistent: false, direction: true, callback });
+		const ghost = getGhost(element);
+		const moveGhost = (top: number) => {
+			ghost.getBoundingClientRect = () => ({ top }) as DOMRect;
+		};
+
+		moveGhost(200);
+		triggerIntersect(ghost, false);
+		expect(element.className).toBe('');
+		expect(element.dataset.csDirection).toBeUndefined();
+
+		triggerIntersect(ghost, true);
+		expect(element.classList.contains('cs-enter-from-bottom')).toBe(true);
+		expect(element.dataset.csDirection).toBe('down');
+		expect(callback).toHaveBeenLastCalledWith(element, { edge: 'bottom', direction: 'down' });
+
+		moveGhost(-50);
+		triggerIntersect(ghost, false);
+		expect(element.classList.contains('cs-exit-top')).toBe(true);
+		expect(element.classList.contains('cs-enter-from-bottom')).toBe(false);
+		expect(element.dataset.csDirection).toBe('down');
+
+		triggerIntersect(ghost, true);
+		expect(element.classList.contains('cs-enter-from-top')).toBe(true);
+		expect(element.dataset.csDirection).toBe('up');
+		expect(callback).toHaveBeenLastCalledWith(element, { edge: 'top', direction: 'up' });
+
+		moveGhost(300);
+		triggerIntersect(ghost, false);
+		expect(element.classList.contains('cs-exit-bottom')).toBe(true);
+		expect(element.dataset.csDirection).toBe('up');
+
+		destroy();
+	});
+
+	it('should pass the direction to stage callbacks without touching classes by default', () => {
+		const element = createElement();
+		const callback = vi.fn();
+		const { destroy } = classyScroll(element, { stages: [{ threshold: 0.5, class: 'is-visible' }], callback });
+		const ghost = getGhost(element);
+		ghost.getBoundingClientRect = () => ({ top: -10 }) as DOMRect;
+
+		triggerIntersect(ghost, true);
+		expect(callback).toHaveBeenCalledWith(element, { edge: 'top', direction: 'up' });
+		expect(element.className).toBe('is-visible');
+		expect(element.dataset.csDirection).toBeUndefined();
+
+		destroy();
+	});
+
+	it('should strip direction classes from ghosts', () => {
+		const element = createElement('cs-exit-top card');
+		const { destroy } = classyScroll(element, { direction: true });
+
+		expect(getGhost(element).className).toBe('card');
+		destroy();
+	});
+
+	it('should fire lifecycle hooks with an event object', () => {
+		const element = createElement();
+		const hooks = { onEnter: vi.fn(), onLeave: vi.fn(), onEnterBack: vi.fn(), onLeaveBack: vi.fn(), callback: vi.fn() };
+		const { destroy } = classyScroll(element, { class: 'visible shown', persistent: false, ...hooks });
+		const ghost = getGhost(element);
+		const moveGhost = (top: number) => {
+			ghost.getBoundingClientRect = () => ({ top }) as DOMRect;
+		};
+
+		moveGhost(500);
+		triggerIntersect(ghost, false);
+		expect(hooks.onLeaveBack).not.toHaveBeenCalled();
+
+		triggerIntersect(ghost, true);
+		expect(hooks.onEnter).toHaveBeenCalledWith(expect.objectContaining({
+			element,
+			ghost,
+			entry: expect.objectContaining({ target: ghost, isIntersecting: true }),
+			direction: { edge: 'bottom', direction: 'down' },
+			classes: ['visible', 'shown'],
+			delay: 0,
+			stagger: 0,
+		}));
+		expect(hooks.callback).toHaveBeenCalledTimes(1);
+
+		moveGhost(-100);
+		triggerIntersect(ghost, false);
+		expect(hooks.onLeave).toHaveBeenCalledWith(expect.objectContaining({ classes: ['visible', 'shown'] }));
+
+		triggerIntersect(ghost, true);
+		expect(hooks.onEnterBack).toHaveBeenCalledTimes(1);
+		expect(hooks.callback).toHaveBeenCalledTimes(2);
+
+		moveGhost(900);
+		triggerIntersect(ghost, false);
+		expect(hooks.onLeaveBack).toHaveBeenCalledTimes(1);
+		expect(hooks.onEnter).toHaveBeenCalledTimes(1);
+		expect(hooks.onLeave).toHaveBeenCalledTimes(1);
+
+		destroy();
+	});
+
+	it('should report the delay and stagger actually applied', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		element2.dataset.csDelay = '50';
+		const onEnter = vi.fn();
+		const { destroy } = classyScroll([element1, element2], { stagger: 100, onEnter });
+
+		triggerIntersect(getGhost(element1), true);
+		triggerIntersect(getGhost(element2), true);
+		vi.advanceTimersByTime(150);
+
+		expect(onEnter).toHaveBeenNthCalledWith(1, expect.objectContaining({ element: element1, delay: 0, stagger: 0 }));
+		expect(onEnter).toHaveBeenNthCalledWith(2, expect.objectContaining({ element: element2, delay: 50, stagger: 100 }));
+
+		destroy();
+	});
+
+	it('should not fire leave hooks when a delayed reveal is cancelled', () => {
+		const element = createElement();
+		const onLeaveBack = vi.fn();
+		const { destroy } = classyScroll(element, { delay: 100, persistent: false, onLeaveBack });
+
+		triggerIntersect(getGhost(element), true);
+		triggerIntersect(getGhost(element), false);
+		vi.advanceTimersByTime(100);
+
+		expect(onLeaveBack).not.toHaveBeenCalled();
+		destroy();
+	});
+
+	it('should fire hooks per stage', () => {
+		const element = createElement();
+		const onEnter = vi.fn();
+		const onLeaveBack = vi.fn();
+		const { destroy } = classyScroll(element, {
+			persistent: false,
+			onEnter,
+			onLeaveBack,
+			stages: [{ threshold: 0.1, class: 'is-peeking' }, { threshold: 0.5, class: 'is-visible' }],
+		});
+		const ghost = getGhost(element);
+		ghost.getBoundingClientRect = () => ({ top: 100 }) as DOMRect;
+
+		triggerIntersect(ghost, true, 0.6);
+		expect(onEnter.mock.calls.map(([event]) => event.classes)).toEqual([['is-peeking'], ['is-visible']]);
+
+		triggerIntersect(ghost, true, 0.2);
+		expect(onLeaveBack).toHaveBeenCalledWith(expect.objectContaining({ classes: ['is-visible'], delay: 0 }));
+
+		destroy();
+	});
+
+	it('should dispatch bubbling cs:enter and cs:leave events', () => {
+		const element = createElement();
+		const onEnter = vi.fn();
+		const onLeave = vi.fn();
+		const leftElements: HTMLElement[] = [];
+		const onWindowLeave = (event: WindowEventMap['cs:leave']) => leftElements.push(event.detail.element);
+		document.addEventListener('cs:enter', onEnter);
+		document.addEventListener('cs:leave', onLeave);
+		window.addEventListener('cs:leave', onWindowLeave);
+		const { destroy } = classyScroll(element, { persistent: false });
+
+		triggerIntersect(getGhost(element), true);
+		const [enterEvent] = onEnter.mock.calls[0];
+		expect(enterEvent).toBeInstanceOf(CustomEvent);
+		expect(enterEvent.target).toBe(element);
+		expect(enterEvent.detail).toEqual(expect.objectContaining({ element, classes: ['is-visible'] }));
+
+		triggerIntersect(getGhost(element), false);
+		expect(onLeave).toHaveBeenCalledTimes(1);
+		expect(leftElements).toEqual([element]);
+
+		destroy();
+		document.removeEventListener('cs:enter', onEnter);
+		document.removeEventListener('cs:leave', onLeave);
+		window.removeEventListener('cs:leave', onWindowLeave);
+	});
+
+	it('should not dispatch DOM events when disabled', () => {
+		const element = createElement();
+		const listener = vi.fn();
+		element.addEventListener('cs:enter', listener);
+		const { destroy } = classyScroll(element, { events: false });
+
+		triggerIntersect(getGhost(element), true);
+		expect(element.classList.contains('is-visible')).toBe(true);
+		expect(listener).not.toHaveBeenCalled();
+
+		destroy();
+	});
+
+	it('should auto-init [data-cs] elements grouped by their attribute options', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const element3 = createElement();
+		const ignored = createElement();
+		[element1, element2, element3].forEach(el => el.dataset.cs = '');
+		element1.dataset.csThreshold = '0.5';
+		element2.dataset.csThreshold = '0.5';
+		element3.dataset.csRootMargin = '-10% 0px';
+		element3.dataset.csPersistent = 'false';
+		element3.dataset.csStagger = '50';
+
+		const { destroy } = autoInit({ class: 'shown' });
+		const observer1 = getObserver(getGhost(element1)) as unknown as IntersectionObserverMock;
+		const observer3 = getObserver(getGhost(element3)) as unknown as IntersectionObserverMock;
+
+		expect(getGhost(ignored)).toBeNull();
+		expect(getObserver(getGhost(element2))).toBe(observer1);
+		expect(observer3).not.toBe(observer1);
+		expect(observer1.options).toEqual(expect.objectContaining({ threshold: 0.5, rootMargin: '0px' }));
+		expect(observer3.options).toEqual(expect.objectContaining({ threshold: 0.1, rootMargin: '-10% 0px' }));
+
+		triggerIntersect(getGhost(element3), true);
+		triggerIntersect(getGhost(element3), false);
+		expect(element3.classList.contains('shown')).toBe(false);
+
+		destroy();
+		expect(getGhosts()).toHaveLength(0);
+	});
+
+	it('should honour an explicit data-cs-delay of 0', () => {
+		const element = createElement();
+		element.dataset.csDelay = '0';
+		const { destroy } = classyScroll(element, { class: 'visible', delay: 100 });
+
+		triggerIntersect(getGhost(element), true);
+		expect(element.classList.contains('visible')).toBe(true);
+
+		destroy();
+	});
+
+	it('should route elements with differing thresholds and margins to separate observers', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const element3 = createElement();
+		element2.setAttribute('data-cs-threshold', '0.75');
+		element3.setAttribute('data-cs-root-margin', ' -10% 0px 20px ');
+
+		const { destroy } = classyScroll([element1, element2, element3], { threshold: 0.25 });
+		const observer1 = getObserver(getGhost(element1)) as unknown as IntersectionObserverMock;
+		const observer2 = getObserver(getGhost(element2)) as unknown as IntersectionObserverMock;
+		const observer3 = getObserver(getGhost(element3)) as unknown as IntersectionObserverMock;
+
+		expect(new Set([observer1, observer2, observer3]).size).toBe(3);
+		expect(observer1.options).toEqual(expect.objectContaining({ threshold: 0.25, rootMargin: '0px' }));
+		expect(observer2.options).toEqual(expect.objectContaining({ threshold: 0.75, rootMargin: '0px' }));
+		expect(observer3.options).toEqual(expect.objectContaining({ threshold: 0.25, rootMargin: '-10% 0px 20px' }));
+
+		destroy();
+		[observer1, observer2, observer3].forEach(observer => expect(observer.disconnect).toHaveBeenCalled());
+	});
+
+	it('should honour per-element persistent and stagger overrides', () => {
+		const toggling = createElement();
+		toggling.dataset.csPersistent = 'false';
+		const persistent = createElement();
+		persistent.dataset.csPersistent = '';
+		const { destroy } = classyScroll([toggling, persistent], { persistent: false });
+
+		triggerIntersect(getGhost(toggling), true);
+		triggerIntersect(getGhost(persistent), true);
+		triggerIntersect(getGhost(toggling), false);
+		triggerIntersect(getGhost(persistent), false);
+
+		expect(toggling.classList.contains('is-visible')).toBe(false);
+		expect(persistent.classList.contains('is-visible')).toBe(true);
+		destroy();
+
+		const slow = createElement();
+		const next = createElement();
+		slow.dataset.csStagger = '300';
+		const { destroy: destroyStagger } = classyScroll([slow, next], { stagger: 100 });
+
+		triggerIntersect(getGhost(slow), true);
+		triggerIntersect(getGhost(next), true);
+		vi.advanceTimersByTime(100);
+		expect(next.classList.contains('is-visible')).toBe(false);
+
+		vi.advanceTimersByTime(200);
+		expect(next.classList.contains('is-visible')).toBe(true);
+		destroyStagger();
+	});
+
+	it('should normalise whitespace in data-cs-class', () => {
+		const element = createElement();
+		element.dataset.csClass = '  fade-in   slide-up ';
+		const { destroy } = classyScroll(element);
+
+		triggerIntersect(getGhost(element), true);
+		expect(element.className).toBe('fade-in slide-up');
+
+		destroy();
+	});
+
+	it('should report invalid attribute values and fall back to the instance options', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const element = createElement();
+		element.dataset.csThreshold = '1.5';
+		element.dataset.csRootMargin = '10';
+		element.dataset.csPersistent = 'nope';
+		element.dataset.csDelay = '-5';
+		element.dataset.csStagger = 'fast';
+		element.dataset.csClass = '   ';
+
+		const { destroy } = classyScroll(element, { class: 'visible', threshold: 0.3, persistent: false });
+		const observer = getObserver(getGhost(element)) as unknown as IntersectionObserverMock;
+
+		expect(observer.options).toEqual(expect.objectContaining({ threshold: 0.3, rootMargin: '0px' }));
+		expect(warn).toHaveBeenCalledTimes(6);
+		expect(warn).toHaveBeenCalledWith('[classy-scroll] Ignoring invalid data-cs-threshold="1.5", expected a number between 0 and 1.', element);
+
+		triggerIntersect(getGhost(element), true);
+		expect(element.classList.contains('visible')).toBe(true);
+		triggerIntersect(getGhost(element), false);
+		expect(element.classList.contains('visible')).toBe(false);
+
+		destroy();
+		warn.mockRestore();
+	});
+
+	it('should reject prototype keys as data-cs-persistent values', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const element = createElement();
+		element.dataset.csPersistent = 'constructor';
+
+		const { destroy } = classyScroll(element, { persistent: false });
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('data-cs-persistent="constructor"'), element);
+
+		triggerIntersect(getGhost(element), true);
+		triggerIntersect(getGhost(element), false);
+		expect(element.classList.contains('is-visible')).toBe(false);
+
+		destroy();
+		warn.mockRestore();
+	});
+
+	it('should swap removeClass for class and restore it in non-persistent mode', () => {
+		const element = createElement('opacity-0 translate-y-8 card');
+		const { destroy } = classyScroll(element, {
+			class: 'opacity-100',
+			removeClass: 'opacity-0 translate-y-8 not-present',
+			persistent: false,
+		});
+		const ghost = getGhost(element);
+
+		triggerIntersect(ghost, true);
+		expect(element.className).toBe('card opacity-100');
+
+		triggerIntersect(ghost, false);
+		expect(element.className).toBe('card opacity-0 translate-y-8');
+
+		destroy();
+	});
+
+	it('should read data-cs-remove-class and keep it on the ghost', () => {
+		const element = createElement('hidden-start card');
+		element.dataset.csRemoveClass = 'hidden-start';
+		const controller = classyScroll(element, { class: 'shown' });
+
+		triggerIntersect(getGhost(element), true);
+		expect(element.className).toBe('card shown');
+
+		controller.refresh();
+		expect(getGhost(element).className).toBe('hidden-start card');
+
+		controller.destroy();
+	});
+
+	it('should share one observer between instances and release it by reference count', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const first = classyScroll(element1, { threshold: 0.33, class: 'first' });
+		const second = classyScroll(element2, { threshold: 0.33, class: 'second' });
+		const observer = getObserver(getGhost(element1)) as unknown as IntersectionObserverMock;
+
+		expect(getObserver(getGhost(element2))).toBe(observer);
+
+		const ghost1 = getGhost(element1);
+		const ghost2 = getGhost(element2);
+		const { callback } = intersectionObservers.get(ghost1)!;
+		const entry = (target: Element) => ({ target, isIntersecting: true, intersectionRatio: 1, boundingClientRect: target.getBoundingClientRect(), rootBounds: null }) as IntersectionObserverEntry;
+		callback([entry(ghost1), entry(ghost2), entry(document.body)], observer as unknown as IntersectionObserver);
+
+		expect(element1.className).toBe('first');
+		expect(element2.className).toBe('second');
+
+		first.destroy();
+		expect(observer.disconnect).not.toHaveBeenCalled();
+
+		second.destroy();
+		expect(observer.disconnect).toHaveBeenCalledTimes(1);
+
+		const element3 = createElement();
+		const third = classyScroll(element3, { threshold: 0.33 });
+		expect(getObserver(getGhost(element3))).not.toBe(observer);
+		third.destroy();
+	});
+
+	it('should keep observers separate per root', () => {
+		const scroller = document.createElement('div');
+		container.appendChild(scroller);
+		const inside = document.createElement('div');
+		scroller.appendChild(inside);
+		const outside = createElement();
+
+		const first = classyScroll(inside, { root: scroller, threshold: 0.66 });
+		const second = classyScroll(outside, { threshold: 0.66 });
+
+		expect(getObserver(getGhost(inside))).not.toBe(getObserver(getGhost(outside)));
+
+		first.destroy();
+		second.destroy();
+	});
+
+	it('should share one debounced resize listener across instances', async () => {
+		vi.resetModules();
+		const { classyScroll: isolatedClassyScroll } = await import('./index');
+		const addListener = vi.spyOn(window, 'addEventListener');
+		const removeListener = vi.spyOn(window, 'removeEventListener');
+		const element1 = createElement();
+		const element2 = createElement();
+
+		const first = isolatedClassyScroll(element1);
+		const second = isolatedClassyScroll(element2);
+		expect(addListener.mock.calls.filter(([type]) => type === 'resize')).toHaveLength(1);
+
+		element1.getBoundingClientRect = () => ({ top: 100, left: 0, width: 10, height: 10 }) as DOMRect;
+		element2.getBoundingClientRect = () => ({ top: 200, left: 0, width: 10, height: 10 }) as DOMRect;
+		window.dispatchEvent(new Event('resize'));
+		window.dispatchEvent(new Event('resize'));
+		vi.advanceTimersByTime(149);
+		expect(getGhost(element1).style.top).toBe('0px');
+
+		vi.advanceTimersByTime(1);
+		expect(getGhost(element1).style.top).toBe('100px');
+		expect(getGhost(element2).style.top).toBe('200px');
+
+		first.destroy();
+		expect(removeListener.mock.calls.filter(([type]) => type === 'resize')).toHaveLength(0);
+
+		second.destroy();
+		expect(removeListener.mock.calls.filter(([type]) => type === 'resize')).toHaveLength(1);
+
+		addListener.mockRestore();
+		removeListener.mockRestore();
+	});
+
+	it('should reposition only the affected ghosts when an element resizes', () => {
+		const element1 = createElement();
+		const element2 = createElement();
+		const { destroy } = classyScroll([element1, element2]);
+		const ghost1 = getGhost(element1);
+
+		triggerResize(element1, 100, 20);
+		triggerResize(element2, 100, 20);
+
+		element1.getBoundingClientRect = () => ({ top: 40, left: 0, width: 100, height: 60 }) as DOMRect;
+		element2.getBoundingClientRect = () => ({ top: 120, left: 0, width: 100, height: 20 }) as DOMRect;
+		triggerResize(element1, 100, 20);
+		expect(ghost1.style.height).toBe('0px');
+
+		triggerResize(element1, 100, 60);
+		expect(getGhost(element1)).toBe(ghost1);
+		expect(ghost1.style.top).toBe('40px');
+		expect(ghost1.style.height).toBe('60px');
+		expect(getGhost(element2).style.top).toBe('0px');
+
+		destroy();
+	});
+
+	it('should keep ghosts at the start geometry when the classes resize the element', () => {
+		const element = createElement('hidden');
+		const { destroy } = classyScroll(element, { removeClass: 'hidden', persistent: false });
+		const ghost = getGhost(element);
+
+		triggerResize(element, 100, 0);
+		triggerIntersect(ghost, true);
+		element.getBoundingClientRect = () => ({ top: 0, left: 0, width: 100, height: 400 }) as DOMRect;
+		triggerResize(element, 100, 400);
+		expect(ghost.style.height).toBe('0px');
+		expect(element.classList.contains('is-visible')).toBe(true);
+
+		triggerIntersect(ghost, false);
+		element.getBoundingClientRect = () => ({ top: 0, left: 0, width: 100, height: 0 }) as DOMRect;
+		triggerResize(element, 100, 0);
+		expect(ghost.style.height).toBe('0px');
+
+		destroy();
+	});
+
+	it('should reposition every ghost sharing a resized offset parent', () => {
+		const parent = document.createElement('section');
+		container.appendChild(parent);
+		const element1 = createElement();
+		const element2 = createElement();
+		[element1, element2].forEach((element) => {
+			parent.appendChild(element);
+			Object.defineProperty(element, 'offsetParent', { configurable: true, value: parent });
+		});
+		const controller = classyScroll([element1, element2]);
+
+		triggerResize(parent, 500, 500);
+		element1.getBoundingClientRect = () => ({ top: 300, left: 0, width: 10, height: 10 }) as DOMRect;
+		element2.getBoundingClientRect = () => ({ top: 400, left: 0, width: 10, height: 10 }) as DOMRect;
+		triggerResize(parent, 500, 800);
+
+		expect(getGhost(element1).style.top).toBe('300px');
+		expect(getGhost(element2).style.top).toBe('400px');
+
+		controller.remove(element1);
+		element2.getBoundingClientRect = () => ({ top: 450, left: 0, width: 10, height: 10 }) as DOMRect;
+		triggerResize(parent, 500, 900);
+		expect(getGhost(element2).style.top).toBe('450px');
+
+		controller.remove(element2);
+		element2.getBoundingClientRect = () => ({ top: 999, left: 0, width: 10, height: 10 }) as DOMRect;
+		triggerResize(parent, 500, 1000);
+		expect(getGhost(element2)).toBeNull();
+
+		controller.destroy();
+	});
+
+	it('should fall back to window resizes when ResizeObserver is unavailable', () => {
+		vi.stubGlobal('ResizeObserver', undefined);
+		const element = createElement();
+		const controller = classyScroll(element);
+
+		element.getBoundingClientRect = () => ({ top: 75, left: 0, width: 10, height: 10 }) as DOMRect;
+		controller.refresh();
+		expect(getGhost(element).style.top).toBe('75px');
+
+		controller.remove(element);
+		controller.destroy();
+		vi.stubGlobal('ResizeObserver', ResizeObserverMock);
+	});
+
+	it('should scrub id, name and data attributes from ghosts', () => {
+		const element = createElement('card');
+		element.id = 'hero';
+		element.setAttribute('name', 'hero');
+		element.dataset.csClass = 'shown';
+		element.dataset.analytics = 'hero';
+		element.setAttribute('role', 'region');
+		const { destroy } = classyScroll(element);
+		const ghost = getGhost(element);
+
+		expect(ghost.id).toBe('');
+		expect(ghost.hasAttribute('name')).toBe(false);
+		expect(Object.keys(ghost.dataset)).toEqual(['csGhost']);
+		expect(ghost.className).toBe('card');
+		expect(ghost.getAttribute('role')).toBe('region');
+
+		destroy();
+	});
+
+	it('should observe the element itself in direct tracking mode', () => {
+		const element = createElement();
+		const onEnter = vi.fn();
+		const controller = classyScroll(element, { tracking: 'direct', persistent: false, onEnter });
+
+		expect(getGhosts()).toHaveLength(0);
+		expect(getObserver(element)).toBeDefined();
+
+		triggerIntersect(element, true);
+		expect(element.classList.contains('is-visible')).toBe(true);
+		expect(onEnter).toHaveBeenCalledWith(expect.objectContaining({ element, ghost: null }));
+
+		element.getBoundingClientRect = () => ({ top: 30, left: 0, width: 10, height: 10 }) as DOMRect;
+		controller.refresh();
+		expect(element.style.top).toBe('');
+
+		controller.remove(element);
+		expect(getObserver(element)).toBeUndefined();
+		expect(element.isConnected).toBe(true);
+
+		controller.add(element);
+		controller.destroy();
+		expect(element.isConnected).toBe(true);
+	});
+
+	it('should report a directly tracked element to every instance observing it', () => {
+		const element = createElement();
+		const first = vi.fn();
+		const second = vi.fn();
+		const firstController = classyScroll(element, { tracking: 'direct', persistent: false, class: 'first', onEnter: first });
+		const secondController = classyScroll(element, { tracking: 'direct', persistent: false, class: 'second', onEnter: second });
+
+		triggerIntersect(element, true);
+		expect(element.className).toBe('first second');
+		expect(first).toHaveBeenCalledTimes(1);
+		expect(second).toHaveBeenCalledTimes(1);
+
+		secondController.remove(element);
+		triggerIntersect(element, false);
+		expect(element.className).toBe('second');
+
+		firstController.destroy();
+		expect(getObserver(element)).toBeUndefined();
+		secondController.destroy();
+	});
+
+	it('should only create ghosts where needed in auto tracking mode', () => {
+		const style = document.createElement('style');
+		style.textContent = '.slide { margin-top: 40px; } .slide.is-visible { margin-top: 0; } .fade.is-visible { opacity: 1; }';
+		document.head.appendChild(style);
+
+		const fading = createElement('fade');
+		const sliding = createElement('slide');
+		const translated = createElement();
+		const swapped = createElement('tall');
+		swapped.dataset.csRemoveClass = 'tall';
+		style.textContent += ' .tall { height: 200px; }';
+		const getComputedStyleOriginal = window.getComputedStyle.bind(window);
+		vi.spyOn(window, 'getComputedStyle').mockImplementation(element => element === translated
+			? { transform: 'matrix(1, 0, 0, 1, 0, 25)' } as CSSStyleDeclaration
+			: getComputedStyleOriginal(element));
+
+		const { destroy } = classyScroll([fading, sliding, translated, swapped], { tracking: 'auto' });
+
+		expect(getGhost(fading)).toBeNull();
+		expect(getObserver(fading)).toBeDefined();
+		expect(getGhost(sliding)).toBeTruthy();
+		expect(getGhost(translated)).toBeTruthy();
+		expect(getGhost(swapped)).toBeTruthy();
+		expect(container.children).toHaveLength(4);
+
+		destroy();
+		vi.mocked(window.getComputedStyle).mockRestore();
+		style.remove();
+	});
+
+	it('should return an inert controller without a DOM', () => {
+		const realDocument = document;
+		vi.stubGlobal('document', undefined);
+		const controller = classyScroll('.anything', { debug: true, watch: true });
+		vi.stubGlobal('document', realDocument);
+
+		const live = classyScroll([]);
+		expect(Object.keys(controller)).toEqual(Object.keys(live));
+		live.destroy();
+
+		controller.add('.anything');
+		controller.remove('.anything');
+		controller.refresh();
+		controller.pause();
+		controller.resume();
+		controller.reset();
+		controller.revealAll();
+		expect(controller.getState().size).toBe(0);
+		controller.destroy();
+		expect(getGhosts()).toHaveLength(0);
+	});
+
+	it('should reveal everything for printing and restore unrevealed elements afterwards', () => {
+		const revealed = createElement();
+		const pending = createElement('hidden');
+		const { destroy } = classyScroll([revealed, pending], { print: 'restore', removeClass: 'hidden', delay: 500 });
+
+		triggerIntersect(getGhost(revealed), true);
+		vi.advanceTimersByTime(500);
+
+		window.dispatchEvent(new Event('beforeprint'));
+		expect(pending.className).toBe('is-visible');
+		expect(getObserver(getGhost(pending))).toBeUndefined();
+
+		window.dispatchEvent(new Event('afterprint'));
+		expect(pending.className).toBe('hidden');
+		expect(revealed.className).toBe('is-visible');
+		expect(getObserver(getGhost(pending))).toBeDefined();
+
+		destroy();
+		window.dispatchEvent(new Event('beforeprint'));
+		expect(pending.className).toBe('hidden');
+	});
+
+	it('should reveal the targets at and around a hash anchor', async () => {
+		const layout = (element: HTMLElement, top: number) => {
+			element.getBoundingClientRect = () => ({ top, left: 0, width: 100, height: 100 }) as DOMRect;
+			return element;
+		};
+		const section = layout(createElement(), 2000);
+		section.id = 'install';
+		const heading = layout(createElement(), 0);
+		section.appendChild(heading);
+		const [above, below, far] = [layout(createElement(), 1000), layout(createElement(), 2500), layout(createElement(), 4000)];
+		const targets = [heading, above, below, far];
+
+		window.history.replaceState(null, '', '#install');
+		const initial = classyScroll(heading, { delay: 300 });
+		await Promise.resolve();
+		expect(heading.classList.contains('is-visible')).toBe(true);
+		initial.destroy();
+
+		window.history.replaceState(null, '', '#');
+		heading.classList.remove('is-visible');
+		const { destroy } = classyScroll(targets, { hash: true });
+		expect(targets.some(element => element.classList.contains('is-visible'))).toBe(false);
+
+		window.history.replaceState(null, '', '#install');
+		window.dispatchEvent(new HashChangeEvent('hashchange'));
+		expect(targets.map(element => element.classList.contains('is-visible'))).toEqual([true, false, true, false]);
+
+		destroy();
+		window.history.replaceState(null, '', '#');
+	});
+
+	it('should reveal elements registered at the hash anchor while the page is loading', async () => {
+		const readyState = vi.spyOn(document, 'readyState', 'get').mockReturnValue('loading');
+		window.history.replaceState(null, '', '#faq');
+		const controller = classyScroll([]);
+		await Promise.resolve();
+
+		const faq = createElement();
+		faq.id = 'faq';
+		controller.add(faq);
+		expect(faq.classList.contains('is-visible')).toBe(true);
+
+		window.dispatchEvent(new Event('load'));
+		const late = createElement();
+		faq.appendChild(late);
+		controller.add(late);
+		expect(late.classList.contains('is-visible')).toBe(false);
+
+		controller.destroy();
+		readyState.mockRestore();
+		window.history.replaceState(null, '', '#');
+	});
+
+	it('should fire enter hooks and events for hash reveals but not for print reveals', async () => {
+		const [anchored, other] = [createElement(), createElement()];
+		anchored.id = 'pricing';
+		other.getBoundingClientRect = () => ({ top: 5000, left: 0, width: 100, height: 100 }) as DOMRect;
+		// The controller is only usable in hooks if they fire after it was returned.
+		const onEnter = vi.fn<(event: ClassyScrollEvent) => void>(() => controller.getState());
+		const callback = vi.fn();
+		const onEvent = vi.fn();
+		document.addEventListener('cs:enter', onEvent);
+
+		window.history.replaceState(null, '', '#pricing');
+		const controller = classyScroll([anchored, other], { onEnter, callback, delay: 300, stagger: 100 });
+		expect(onEnter).not.toHaveBeenCalled();
+		await Promise.resolve();
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		expect(onEnter).toHaveBeenCalledWith(expect.objectContaining({ element: anchored, classes: ['is-visible'], delay: 0, stagger: 0 }));
+		expect(onEnter.mock.calls[0][0].entry.target).toBe(getGhost(anchored));
+		expect(callback).toHaveBeenCalledWith(anchored, expect.objectContaining({ direction: 'down' }));
+
+		expect(onEvent).toHaveBeenCalledTimes(1);
+
+		window.dispatchEvent(new Event('beforeprint'));
+		expect(other.classList.contains('is-visible')).toBe(true);
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		expect(onEvent).toHaveBeenCalledTimes(1);
+
+		controller.destroy();
+		document.removeEventListener('cs:enter', onEvent);
+		window.history.replaceState(null, '', '#');
+	});
+
+	describe('controller', () => {
+		it('should hold back reveals, the queue and delays while paused', () => {
+			const [first, second] = [createElement(), createElement()];
+			const delayed = createElement();
+			delayed.dataset.csDelay = '300';
+			delayed.dataset.csStagger = '0';
+			const controller = classyScroll([first, second, delayed], { stagger: 100 });
+
+			triggerIntersectBatch([first, second, delayed].map(getGhost), true);
+			controller.pause();
+			expect(controller.getState()).toEqual(new Map([[first, 'active'], [second, 'queued'], [delayed, 'delayed']]));
+
+			const late = createElement();
+			controller.add(late);
+			triggerIntersect(getGhost(late), true);
+			vi.advanceTimersByTime(1000);
+			expect(second.classList.contains('is-visible')).toBe(false);
+			expect(delayed.classList.contains('is-visible')).toBe(false);
+			expect(late.classList.contains('is-visible')).toBe(false);
+
+			controller.resume();
+			vi.advanceTimersByTime(100);
+			expect(second.classList.contains('is-visible')).toBe(true);
+			expect(controller.getState().get(late)).toBe('queued');
+
+			vi.advanceTimersByTime(200);
+			expect(delayed.classList.contains('is-visible')).toBe(true);
+			expect(late.classList.contains('is-visible')).toBe(true);
+
+			controller.destroy();
+		});
+
+		it('should reset elements and observe persistent ghosts again', () => {
+			const element = createElement('card hidden');
+			const onEnter = vi.fn();
+			const controller = classyScroll(element, { removeClass: 'hidden', direction: true, onEnter });
+			const ghost = getGhost(element);
+
+			triggerIntersect(ghost, true);
+			expect(getObserver(ghost)).toBeUndefined();
+
+			controller.reset();
+			expect(element.className).toBe('card hidden');
+			expect(element.dataset.csDirection).toBeUndefined();
+			expect(controller.getState().get(element)).toBe('pending');
+			expect(getObserver(ghost)).toBeDefined();
+
+			triggerIntersect(ghost, true);
+			expect(onEnter).toHaveBeenCalledTimes(2);
+			expect(element.classList.contains('is-visible')).toBe(true);
+
+			controller.destroy();
+		});
+
+		it('should reveal all elements at once, bypassing delay and stagger', () => {
+			const elements = [createElement(), createElement()];
+			const toggling = createElement();
+			toggling.dataset.csPersistent = 'false';
+			const controller = classyScroll([...elements, toggling], { delay: 500, stagger: 100 });
+
+			triggerIntersect(getGhost(elements[0]), true);
+			controller.revealAll();
+
+			[...elements, toggling].forEach(element => expect(element.classList.contains('is-visible')).toBe(true));
+			expect(getObserver(getGhost(elements[1]))).toBeUndefined();
+			expect(getObserver(getGhost(toggling))).toBeDefined();
+			expect(vi.getTimerCount()).toBe(0);
+
+			controller.destroy();
+		});
+	});
+
+	it('should register server-rendered active elements as already revealed', () => {
+		const revealed = createElement('is-visible');
+		const pending = createElement();
+		const onEnter = vi.fn();
+		const { destroy } = classyScroll([revealed, pending], { hydrate: true, onEnter });
+
+		expect(getObserver(getGhost(revealed))).toBeUndefined();
+		expect(getGhost(revealed).classList.contains('is-visible')).toBe(false);
+		expect(getObserver(getGhost(pending))).toBeDefined();
+
+		triggerIntersect(getGhost(pending), true);
+		expect(onEnter).toHaveBeenCalledTimes(1);
+
+		destroy();
+	});
+
+	it('should keep observing hydrated elements that toggle and restore their swapped classes', () => {
+		const element = createElement('card shown');
+		const { destroy } = classyScroll(element, { hydrate: true, persistent: false, class: 'shown', removeClass: 'hidden' });
+		const ghost = getGhost(element);
+
+		expect(ghost.className).toBe('card hidden');
+		expect(getObserver(ghost)).toBeDefined();
+
+		triggerIntersect(ghost, false);
+		expect(element.className).toBe('card hidden');
+
+		destroy();
+	});
+
+	it('should hydrate staged elements only when every stage is active', () => {
+		const complete = createElement('peek full');
+		const partial = createElement('peek');
+		const stages = [{ threshold: 0.1, class: 'peek' }, { threshold: 1, class: 'full' }];
+		const { destroy } = classyScroll([complete, partial], { hydrate: true, stages });
+
+		expect(getObserver(getGhost(complete))).toBeUndefined();
+		expect(getObserver(getGhost(partial))).toBeDefined();
+
+		destroy();
+	});
+
+	it('should not flag already active elements without hydrate', () => {
+		const element = createElement('is-visible');
+		const { destroy } = classyScroll(element);
+
+		expect(getObserver(getGhost(element))).toBeDefined();
+		destroy();
+	});
+
+	it('should reveal every target when IntersectionObserver is unavailable', () => {
+		vi.stubGlobal('IntersectionObserver', undefined);
+		const element = createElement('card hidden');
+		const untouched = createElement();
+		const revealed = classyScroll(element, { removeClass: 'hidden' });
+		const ignored = classyScroll(untouched, { fallback: 'none' });
+
+		expect(element.className).toBe('card is-visible');
+		expect(untouched.className).toBe('');
+
+		revealed.destroy();
+		ignored.destroy();
+		vi.stubGlobal('IntersectionObserver', IntersectionObserverMock);
+	});
+
+	it('should still reveal every target without matchMedia and IntersectionObserver', () => {
+		vi.stubGlobal('IntersectionObserver', undefined);
+		window.matchMedia = undefined as unknown as typeof window.matchMedia;
+		const element = createElement('card hidden');
+		const { destroy } = classyScroll(element, { removeClass: 'hidden', delay: 200 });
+
+		expect(element.className).toBe('card is-visible');
+		destroy();
+		vi.stubGlobal('IntersectionObserver', IntersectionObserverMock);
+	});
+
+	describe('targets and active groups', () => {
+		const setHeight = (element: HTMLElement, height: number) => {
+			getGhost(element).getBoundingClientRect = () => ({ top: 0, left: 0, width: 100, height }) as DOMRect;
+		};
+
+		it('should mirror the state onto data-cs-target elements', () => {
+			const link = createElement();
+			link.id = 'nav-about';
+			const section = createElement();
+			section.dataset.csTarget = '#nav-about';
+			const custom = createElement();
+			custom.dataset.csTarget = '#nav-about';
+			custom.dataset.csTargetClass = 'is-current';
+			const { destroy } = classyScroll([section, custom], { persistent: false });
+
+			triggerIntersect(getGhost(section), true);
+			expect(link.className).toBe('is-active');
+
+			triggerIntersect(getGhost(custom), true);
+			triggerIntersect(getGhost(section), false);
+			expect(link.className).toBe('is-current');
+			destroy();
+		});
+
+		it('should ignore extra whitespace in targetClass', () => {
+			const link = createElement();
+			link.id = 'nav-about';
+			const section = createElement();
+			section.dataset.csTarget = '#nav-about';
+			const { destroy } = classyScroll(section, { persistent: false, targetClass: ' is-active  bold ' });
+
+			expect(() => triggerIntersect(getGhost(section), true)).not.toThrow();
+			expect(link.className).toBe('is-active bold');
+			triggerIntersect(getGhost(section), false);
+			expect(link.className).toBe('');
+			destroy();
+		});
+
+		it('should keep a linked element active while another section linked to it is active', () => {
+			const nav = createElement();
+			nav.id = 'nav';
+			const [first, second] = [createElement(), createElement()];
+			first.dataset.csTarget = '#nav';
+			second.dataset.csTarget = '#nav';
+			const { destroy } = classyScroll([first, second], { persistent: false });
+
+			triggerIntersect(getGhost(first), true);
+			triggerIntersect(getGhost(second), true);
+			triggerIntersect(getGhost(first), false);
+			expect(nav.className).toBe('is-active');
+
+			triggerIntersect(getGhost(second), false);
+			expect(nav.className).toBe('');
+			destroy();
+		});
+
+		it('should warn about an invalid data-cs-target selector', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const section = createElement();
+			section.dataset.csTarget = '#[';
+			const { destroy } = classyScroll(section);
+
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('data-cs-target="#["'), section);
+			destroy();
+			warn.mockRestore();
+		});
+
+		it('should only keep the most visible element of a group active', () => {
+			const [intro, about, contact] = [createElement(), createElement(), createElement()];
+			const onLeave = vi.fn();
+			about.addEventListener('cs:leave', onLeave);
+			const { destroy } = classyScroll([intro, about, contact], { activeGroup: 'toc', stagger: 100 });
+			setHeight(intro, 100);
+			setHeight(about, 300);
+
+			triggerIntersectBatch([intro, about].map(getGhost), true);
+			expect(intro.classList.contains('is-visible')).toBe(false);
+			expect(about.classList.contains('is-visible')).toBe(true);
+
+			triggerIntersect(getGhost(about), false);
+			expect(about.classList.contains('is-visible')).toBe(false);
+			expect(intro.classList.contains('is-visible')).toBe(true);
+			expect(onLeave).toHaveBeenCalledTimes(1);
+
+			triggerIntersect(getGhost(contact), true);
+			expect(intro.classList.contains('is-visible')).toBe(true);
+			expect(contact.classList.contains('is-visible')).toBe(false);
+			destroy();
+		});
+
+		it('should report grouped elements at fine thresholds and never unobserve them', () => {
+			const section = createElement();
+			section.dataset.csActiveGroup = 'toc';
+			const { destroy } = classyScroll(section, { threshold: 0.33 });
+			const observer = getObserver(getGhost(section)) as unknown as IntersectionObserverMock;
+
+			expect(observer.options?.threshold).toHaveLength(22);
+			triggerIntersect(getGhost(section), true);
+			expect(section.classList.contains('is-visible')).toBe(true);
+			expect(getObserver(getGhost(section))).toBe(observer);
+			destroy();
+		});
+	});
+
+	describe('dwell', () => {
+		afterEach(() => {
+			Reflect.deleteProperty(document, 'hidden');
+		});
+
+		it('should keep the shared dwell observer for other instances when destroyed twice', () => {
+			const [first, second] = [createElement(), createElement()];
+			const onImpression = vi.fn();
+			const a = classyScroll(first, { dwell: 500 });
+			const b = classyScroll(second, { dwell: 500, onImpression });
+
+			a.destroy();
+			a.destroy();
+			triggerIntersect(getGhost(second), true, 0.6);
+			vi.advanceTimersByTime(500);
+			expect(onImpression).toHaveBeenCalledWith({ element: second, visibleTime: 500 });
+			b.destroy();
+		});
+
+		it('should count an impression once after staying in view at the dwell threshold', () => {
+			const element = createElement();
+			const onImpression = vi.fn();
+			const onEvent = vi.fn();
+			const visibleTimes: number[] = [];
+			const onWindowImpression = (event: WindowEventMap['cs:impression']) => visibleTimes.push(event.detail.visibleTime);
+			element.addEventListener('cs:impression', onEvent);
+			window.addEventListener('cs:impression', onWindowImpression);
+			const controller = classyScroll(element, { dwell: 1000, seenClass: 'is-seen', onImpression });
+			const ghost = getGhost(element);
+			expect((getObserver(ghost) as unknown as IntersectionObserverMock).options).toEqual(expect.objectContaining({ threshold: 0.5, rootMargin: '0px' }));
+
+			triggerIntersect(ghost, true, 0.3);
+			vi.advanceTimersByTime(1000);
+			expect(onImpression).not.toHaveBeenCalled();
+
+			triggerIntersect(ghost, true, 0.6);
+			vi.advanceTimersByTime(999);
+			expect(onImpression).not.toHaveBeenCalled();
+			vi.advanceTimersByTime(1);
+			expect(onImpression).toHaveBeenCalledWith({ element, visibleTime: 1000 });
+			expect(onEvent.mock.calls[0][0].detail).toEqual({ element, visibleTime: 1000 });
+			expect(visibleTimes).toEqual([1000]);
+			expect(element.classList.contains('is-seen')).toBe(true);
+			window.removeEventListener('cs:impression', onWindowImpression);
+
+			triggerIntersect(ghost, false);
+			triggerIntersect(ghost, true);
+			vi.advanceTimersByTime(2000);
+			expect(onImpression).toHaveBeenCalledTimes(1);
+			expect(controller.getVisibleTime()).toEqual(new Map([[element, 3000]]));
+			controller.destroy();
+		});
+
+		it('should start a new stretch when the element leaves before the dwell time', () => {
+			const element = createElement();
+			const onImpression = vi.fn();
+			const { destroy } = classyScroll(element, { dwell: 1000, onImpression });
+			const ghost = getGhost(element);
+
+			triggerIntersect(ghost, true);
+			vi.advanceTimersByTime(600);
+			triggerIntersect(ghost, false);
+			triggerIntersect(ghost, true);
+			vi.advanceTimersByTime(600);
+			expect(onImpression).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(400);
+			expect(onImpression).toHaveBeenCalledWith({ element, visibleTime: 1600 });
+			destroy();
+		});
+
+		it('should stop the clock while the tab is hidden', () => {
+			let isHidden = false;
+			Object.defineProperty(document, 'hidden', { configurable: true, get: () => isHidden });
+			const element = createElement();
+			const onImpression = vi.fn();
+			const controller = classyScroll(element, { dwell: 1000, onImpression });
+
+			triggerIntersect(getGhost(element), true);
+			vi.advanceTimersByTime(500);
+			isHidden = true;
+			document.dispatchEvent(new Event('visibilitychange'));
+			vi.advanceTimersByTime(5000);
+			expect(onImpression).not.toHaveBeenCalled();
+			expect(controller.getVisibleTime().get(element)).toBe(500);
+
+			isHidden = false;
+			document.dispatchEvent(new Event('visibilitychange'));
+			vi.advanceTimersByTime(500);
+			expect(onImpression).toHaveBeenCalledWith({ element, visibleTime: 1000 });
+
+			controller.destroy();
+			vi.advanceTimersByTime(500);
+			expect(controller.getVisibleTime().size).toBe(0);
+		});
+
+		it('should report no visible time without dwell', () => {
+			const element = createElement();
+			const controller = classyScroll(element);
+
+			triggerIntersect(getGhost(element), true);
+			vi.advanceTimersByTime(500);
+			expect(controller.getVisibleTime()).toEqual(new Map([[element, 0]]));
+			controller.destroy();
+		});
+	});
+
+	describe('css engine', () => {
+		beforeEach(() => {
+			vi.stubGlobal('CSS', { supports: (condition: string) => condition === 'animation-timeline: view()' });
+		});
+
+		afterEach(() => {
+			vi.stubGlobal('CSS', undefined);
+		});
+
+		it('should drive expressible elements with a view timeline instead of a ghost', () => {
+			const element = createElement('card');
+			element.style.setProperty('animation-range', 'cover');
+			const controller = classyScroll(element, { engine: 'auto', persistent: false, threshold: 0.25, rootMargin: '-10% 0px 20px' });
+
+			expect(getGhosts()).toHaveLength(0);
+			expect(element.classList.contains('is-visible')).toBe(true);
+			expect(element.style.getPropertyValue('animation-timeline')).toBe('view(block 10% -20px)');
+			expect(element.style.getPropertyValue('animation-range')).toBe('entry 25% exit 75%');
+			expect(controller.getState()).toEqual(new Map([[element, 'active']]));
+
+			controller.destroy();
+			expect(element.style.getPropertyValue('animation-timeline')).toBe('');
+			expect(element.style.getPropertyValue('animation-range')).toBe('cover');
+		});
+
+		it('should fall back to the observer per element for options CSS cannot express', () => {
+			const scrubbed = createElement();
+			const delayed = createElement();
+			delayed.dataset.csDelay = '200';
+			const { destroy } = classyScroll([scrubbed, delayed], { engine: 'auto', persistent: false });
+
+			expect(getGhosts(scrubbed)).toHaveLength(0);
+			expect(getGhosts(delayed)).toHaveLength(1);
+			expect(delayed.classList.contains('is-visible')).toBe(false);
+			destroy();
+		});
+
+		it('should warn once when the css engine has to fall back', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const { destroy } = classyScroll([createElement(), createElement()], { engine: 'css' });
+
+			expect(getGhosts()).toHaveLength(2);
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(warn.mock.calls[0][0]).toContain('persistent');
+			destroy();
+			warn.mockRestore();
+		});
+
+		it('should keep the observer when view timelines are unsupported', () => {
+			vi.stubGlobal('CSS', { supports: () => false });
+			const element = createElement();
+			const { destroy } = classyScroll(element, { engine: 'auto', persistent: false });
+
+			expect(getGhosts(element)).toHaveLength(1);
+			expect(element.style.getPropertyValue('animation-timeline')).toBe('');
+			destroy();
+		});
+
+		it('should restore removed elements', () => {
+			const element = createElement();
+			const controller = classyScroll(element, { engine: 'auto', persistent: false });
+			expect(element.dataset.csEngine).toBe('css');
+
+			controller.remove(element);
+			expect(element.style.getPropertyValue('animation-timeline')).toBe('');
+			expect(element.dataset.csEngine).toBeUndefined();
+			expect(element.classList.contains('is-visible')).toBe(true);
+			expect(controller.getState().size).toBe(0);
+			controller.destroy();
+		});
+
+		it('should drop the engine marker on destroy and from elements handed to the observer', () => {
+			const driven = createElement();
+			const delayed = createElement();
+			delayed.dataset.csDelay = '200';
+			const { destroy } = classyScroll([driven, delayed], { engine: 'auto', persistent: false });
+
+			expect(delayed.dataset.csEngine).toBeUndefined();
+			destroy();
+			expect(driven.dataset.csEngine).toBeUndefined();
+			expect(driven.classList.contains('is-visible')).toBe(true);
+		});
+	});
+
+	it('should emulate enter and leave by polling scroll when IntersectionObserver is unavailable', () => {
+		vi.stubGlobal('IntersectionObserver', undefined);
+		window.scrollY = 0;
+		const element = createElement();
+		element.getBoundingClientRect = () => ({ top: 1000, left: 0, width: 100, height: 100 }) as DOMRect;
+		const onEnter = vi.fn();
+		const onLeave = vi.fn();
+		const { destroy } = classyScroll(element, { fallback: 'scroll-polling', threshold: 0.5, persistent: false, onEnter, onLeave });
+
+		vi.advanceTimersByTime(16);
+		expect(element.classList.contains('is-visible')).toBe(false);
+
+		window.scrollY = 320;
+		window.dispatchEvent(new Event('scroll'));
+		window.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(element.classList.contains('is-visible')).toBe(true);
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		expect(onEnter.mock.calls[0][0].direction).toEqual({ edge: 'bottom', direction: 'down' });
+
+		window.scrollY = 1200;
+		window.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(element.classList.contains('is-visible')).toBe(false);
+		expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ direction: { edge: 'top', direction: 'down' } }));
+
+		destroy();
+		window.scrollY = 300;
+		window.dispatchEvent(new Event('scroll'));
+		vi.advanceTimersByTime(16);
+		expect(element.classList.contains('is-visible')).toBe(false);
+
+		window.scrollY = 0;
+		vi.stubGlobal('IntersectionObserver', IntersectionObserverMock);
+	});
 });
@@ -4,20 +4,232 @@
 export interface ClassyScrollOptions {
 	/** Space-separated classes to add when element is in view. Default: 'is-visible' */
 	class?: string;
+	/**
+	 * Space-separated "from" classes to remove when `class` is added, e.g. start utilities like `opacity-0`.
+	 * They are restored when `class` is removed again in non-persistent mode. Not used with `stages`. Default: ''
+	 */
+	removeClass?: string;
 	/** Fraction of the element (0.0–1.0) that must be visible to trigger. Default: 0.1 */
 	threshold?: number;
+	/**
+	 * Staged reveal: add a different class at each threshold. Replaces `class` and `threshold`.
+	 * Stages bypass `delay` and `stagger` and are applied as soon as their threshold is crossed.
+	 */
+	stages?: ClassyScrollStage[];
+	/**
+	 * Scroll container to observe against, as an element or selector. Ghosts are placed inside it,
+	 * so a statically positioned container is made `position: relative` while tracked. Default: the viewport
+	 */
+	root?: string | Element | null;
 	/** Margin around the root element (e.g. "10px 0px"). Default: '0px' */
 	rootMargin?: string;
 	/** If true, the class stays after being added. If false, the class toggles on/off as you scroll. Default: true */
 	persistent?: boolean;
+	/** Space-separated classes for the elements linked with `data-cs-target`, added and removed together with `class`. Default: 'is-active' */
+	targetClass?: string;
+	/**
+	 * Active-section mode: of the elements in the same group that are in view, only the one with the most visible height
+	 * holds the classes, e.g. to highlight the matching nav link. Implies `persistent: false` and skips `stagger`.
+	 * Not used with `stages`. Override per element with `data-cs-active-group`. Default: '' (no group)
+	 */
+	activeGroup?: string;
 	/** Delay in ms between elements in the same batch. Default: 0 */
 	stagger?: number;
+	/**
+	 * Which elements stagger together:
+	 * - `queue`: one continuous queue, later arrivals wait for everything still queued.
+	 * - `batch`: every intersection batch starts its own sequence right away.
+	 * - `parent`: one sequence per parent container, so separate grids reveal in parallel.
+	 * Default: 'queue'
+	 */
+	staggerGroup?: 'queue' | 'batch' | 'parent';
+	/** Order within a group: `arrival` as reported, or `position` row by row, left to right. Default: 'arrival' */
+	staggerOrder?: 'arrival' | 'position';
+	/** Maximum total stagger time in ms per group; the gaps are compressed to fit. Default: no cap */
+	staggerMax?: number;
+	/**
+	 * Distributes the stagger time over a group: maps each element's place in the group (0–1)
+	 * to its share of the total time. Default: 'linear'
+	 */
+	staggerEase?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((progress: number) => number);
 	/** Global delay in ms before animation starts. Default: 0 */
 	delay?: number;
+	/**
+	 * What `prefers-reduced-motion: reduce` means for this instance. Followed live when the OS setting changes:
+	 * - `instant`: skip `delay` and `stagger`; anything still waiting is revealed at once.
+	 * - `respect-delays`: keep the timing and only add the `cs-reduced-motion` class for your CSS to tone down.
+	 * - `reveal-all-immediately`: reveal every target right away, without waiting for it to scroll into view.
+	 * - a function returning the `delay` and `stagger` to use for an element.
+	 * Targets carry a `cs-reduced-motion` class while reduced motion is active. Default: 'instant'
+	 */
+	reducedMotion?: 'instant' | 'respect-delays' | 'reveal-all-immediately' | ((element: HTMLElement, timing: ClassyScrollTiming) => ClassyScrollTiming);
+	/**
+	 * Write a 0–1 `--cs-progress` custom property onto each element as it travels through the
+	 * root-margin zone (0 = entering at the bottom, 1 = fully left at the top). Default: false
+	 */
+	progress?: boolean;
+	/**
+	 * How intersections are measured:
+	 * - `ghost`: observe a layout-stable invisible clone, immune to transforms and class changes.
+	 * - `direct`: observe the element itself, adding no extra DOM nodes.
+	 * - `auto`: only create a ghost when the element is translated or its classes would change its geometry.
+	 * Default: 'ghost'
+	 */
+	tracking?: 'ghost' | 'direct' | 'auto';
+	/**
+	 * What drives the reveals:
+	 * - `observer`: IntersectionObserver and timers.
+	 * - `css`: a scroll-driven animation (`animation-timeline: view()`) on the element itself, off the main thread.
+	 *   The class is added right away and should set an `animation`, which runs from crossing the threshold on entry
+	 *   to crossing it on exit. Elements it can't express fall back to `observer` with a warning: without `view()` support,
+	 *   or with `persistent`, `delay`, `stagger`, `removeClass`, `data-cs-target`, `activeGroup`, a horizontal `rootMargin`,
+	 *   `stages`, `root`, `progress`, `direction`, `debug`, `dwell` or hooks.
+	 * - `auto`: `css` wherever possible, falling back silently.
+	 * CSS-driven elements fire no hooks or events, always report `active`, and are left alone by `reset()`, `revealAll()`,
+	 * printing and hash links. Default: 'observer'
+	 */
+	engine?: 'auto' | 'observer' | 'css';
+	/**
+	 * Treat elements that already carry the active classes (e.g. rendered by the server) as revealed:
+	 * persistent ones are never observed, so hydration can't make them flash or fire hooks. Default: false
+	 */
+	hydrate?: boolean;
+	/**
+	 * What to do where IntersectionObserver is unavailable (old embedded WebViews, some crawlers):
+	 * - `reveal-all`: add the classes to every target right away, without hooks or events.
+	 * - `scroll-polling`: emulate the observer with rAF-throttled scroll math against the cached layout.
+	 * - `none`: leave targets untouched.
+	 * Default: 'reveal-all'
+	 */
+	fallback?: 'reveal-all' | 'scroll-polling' | 'none';
+	/**
+	 * Reveal every target on `beforeprint`, so printed pages and PDFs are complete. No hooks fire, as with `revealAll()`.
+	 * `'restore'` puts elements that were not revealed yet back into their start state on `afterprint`. Default: true
+	 */
+	print?: boolean | 'restore';
+	/**
+	 * On `hashchange` and on load with a hash, reveal the targets at and around the anchor
+	 * (containing it, inside it, or within one root height below its top) so the jump never lands on hidden blocks.
+	 * Targets registered later while the page is still loading are checked as well.
+	 * Enter hooks and events fire without delay or stagger. Default: true
+	 */
+	hash?: boolean;
 	/** Enable debug overlay to visualize trigger zones. Default: false */
 	debug?: boolean;
-	/** Callback fired when element intersects. */
-	callback?: (element: HTMLElement) => void;
+	/**
+	 * Add `cs-enter-from-top|bottom` / `cs-exit-top|bottom` classes and a `data-cs-direction`
+	 * attribute (`up` or `down`) describing how the element crossed the root. Default: false
+	 */
+	direction?: boolean;
+	/** Fired when the classes are added while scrolling down (after any delay or stagger). */
+	onEnter?: (event: ClassyScrollEvent) => void;
+	/** Fired when the classes are removed because the element left through the top. Requires `persistent: false`. */
+	onLeave?: (event: ClassyScrollEvent) => void;
+	/** Fired when the classes are added while scrolling up (after any delay or stagger). */
+	onEnterBack?: (event: ClassyScrollEvent) => void;
+	/** Fired when the classes are removed because the element left through the bottom. Requires `persistent: false`. */
+	onLeaveBack?: (event: ClassyScrollEvent) => void;
+	/**
+	 * Impression tracking: time in ms an element has to stay in view at `dwellThreshold` before `onImpression` fires.
+	 * The clock stops while the tab is hidden, and a stretch in view starts over once the element leaves.
+	 * Measured against the root without `rootMargin`, independently of reveals. Default: 0 (off)
+	 */
+	dwell?: number;
+	/** Fraction of the element (0.0–1.0) that counts as in view for `dwell`. Default: 0.5 */
+	dwellThreshold?: number;
+	/** Space-separated classes to add once an element's impression is counted, e.g. 'is-seen'. Default: '' */
+	seenClass?: string;
+	/** Fired once per element when it has stayed in view for `dwell` ms. */
+	onImpression?: (event: ClassyScrollImpression) => void;
+	/** Dispatch bubbling `cs:enter` / `cs:leave` (and `cs:impression`) CustomEvents on the element. Default: true */
+	events?: boolean;
+	/**
+	 * Callback fired when element intersects, with the edge it entered from and the scroll direction.
+	 * Kept for backwards compatibility; fires alongside `onEnter` and `onEnterBack`.
+	 */
+	callback?: (element: HTMLElement, direction: ClassyScrollDirection) => void;
+	/**
+	 * Watch the DOM for added/removed targets using a scoped MutationObserver.
+	 * `true` watches `document.body`; pass an element or selector to narrow the scope.
+	 * New nodes are only matched when targets are given as a selector. Default: false
+	 */
+	watch?: boolean | string | Element;
+}
+
+/**
+ * A single stage of a staged reveal.
+ */
+export interface ClassyScrollStage {
+	/** Fraction of the element (0.0–1.0) that must be visible for this stage. */
+	threshold: number;
+	/** Space-separated classes to add once the threshold is reached. */
+	class: string;
+	/** Overrides the instance-wide `persistent` setting for this stage. */
+	persistent?: boolean;
+}
+
+/**
+ * Delay and stagger of an element, as passed to and returned by a custom `reducedMotion` policy.
+ */
+export interface ClassyScrollTiming {
+	delay: number;
+	stagger: number;
+}
+
+/**
+ * Where an element crossed the root and which way the page was scrolling.
+ * `edge` is the root edge the element entered from or exited through.
+ */
+export interface ClassyScrollDirection {
+	edge: 'top' | 'bottom';
+	direction: 'up' | 'down';
+}
+
+/**
+ * Payload passed to the `onEnter`, `onLeave`, `onEnterBack` and `onLeaveBack` hooks.
+ */
+export interface ClassyScrollEvent {
+	/** The tracked element whose classes changed. */
+	element: HTMLElement;
+	/** The invisible ghost that is actually observed, or `null` when the element is tracked directly. */
+	ghost: HTMLElement | null;
+	/** The intersection entry that triggered the change. */
+	entry: IntersectionObserverEntry;
+	direction: ClassyScrollDirection;
+	/** The classes that were added or removed. */
+	classes: string[];
+	/** Delay in ms that was waited before the classes were added. Always 0 on leave. */
+	delay: number;
+	/** Time in ms the element spent in the stagger queue. Always 0 on leave. */
+	stagger: number;
+}
+
+/**
+ * Payload passed to the `onImpression` hook.
+ */
+export interface ClassyScrollImpression {
+	element: HTMLElement;
+	/** Total time in ms the element has been in view so far, across every stretch. */
+	visibleTime: number;
+}
+
+// The events bubble, so listeners on `document` and `window` receive them too.
+declare global {
+	interface HTMLElementEventMap {
+		'cs:enter': CustomEvent<ClassyScrollEvent>;
+		'cs:leave': CustomEvent<ClassyScrollEvent>;
+		'cs:impression': CustomEvent<ClassyScrollImpression>;
+	}
+	interface DocumentEventMap {
+		'cs:enter': CustomEvent<ClassyScrollEvent>;
+		'cs:leave': CustomEvent<ClassyScrollEvent>;
+		'cs:impression': CustomEvent<ClassyScrollImpression>;
+	}
+	interface WindowEventMap {
+		'cs:enter': CustomEvent<ClassyScrollEvent>;
+		'cs:leave': CustomEvent<ClassyScrollEvent>;
+		'cs:impression': CustomEvent<ClassyScrollImpression>;
+	}
 }
 
 /**
@@ -26,39 +238,617 @@ export interface ClassyScrollOptions {
  */
 export type ClassyTargets = string | Element | ArrayLike<Element> | null | undefined;
 
-type ElementState = {
-	ghost: HTMLElement;
-	timeoutId?: number;
+/**
+ * Controller returned by `classyScroll()`.
+ */
+export interface ClassyScrollController {
+	/** Start tracking additional targets. Already tracked elements are ignored. */
+	add: (targets: ClassyTargets) => void;
+	/** Stop tracking targets and remove their ghosts. Applied classes are left untouched. */
+	remove: (targets: ClassyTargets) => void;
+	/** Drop disconnected elements, re-resolve selector targets (skipping removed elements) and re-measure every ghost. */
+	refresh: () => void;
+	/** Freeze reveals: intersections, the stagger queue and pending delays wait until `resume()`. */
+	pause: () => void;
+	/** Continue after `pause()`, catching up on everything that crossed the root in the meantime. */
+	resume: () => void;
+	/** Remove the applied classes (all targets by default) and observe them again, so reveals replay. No hooks fire. */
+	reset: (targets?: ClassyTargets) => void;
+	/** Reveal every target right away, bypassing delay and stagger. No hooks fire. */
+	revealAll: () => void;
+	/** The current status of every tracked element. */
+	getState: () => Map<HTMLElement, ClassyScrollStatus>;
+	/** Total time in ms every tracked element has been in view. Measured only with `dwell`. */
+	getVisibleTime: () => Map<HTMLElement, number>;
+	/** Remove all observers, ghosts and event listeners. */
+	destroy: () => void;
+}
+
+/**
+ * - `pending`: waiting to scroll into view.
+ * - `queued`: in view, waiting for its turn in the stagger queue.
+ * - `delayed`: in view, waiting for its `delay`.
+ * - `active`: the classes are applied (for stages: at least the first stage).
+ */
+export type ClassyScrollStatus = 'pending' | 'queued' | 'delayed' | 'active';
+
+/**
+ * Options that can be overridden per element through `data-cs-*` attributes.
+ */
+export interface ClassyElementOptions {
+	/** `data-cs-class` */
+	class?: string;
+	/** `data-cs-remove-class` */
+	removeClass?: string;
+	/** `data-cs-delay` */
+	delay?: number;
+	/** `data-cs-threshold` */
+	threshold?: number;
+	/** `data-cs-root-margin` */
+	rootMargin?: string;
+	/** `data-cs-persistent` (`"false"` to toggle, empty or `"true"` to persist) */
+	persistent?: boolean;
+	/** `data-cs-stagger` */
+	stagger?: number;
+	/** `data-cs-target`: selector of other elements that get `targetClass` while this one is active */
+	target?: string;
+	/** `data-cs-target-class` */
+	targetClass?: string;
+	/** `data-cs-active-group` */
+	activeGroup?: string;
+}
+
+type AttributeRule<T> = {
+	attribute: string;
+	expected: string;
+	/** Returns `undefined` for values that fail validation. */
+	parse: (value: string) => T | undefined;
+};
+
+const parseNumber = (min: number, max: number) => (value: string) => {
+	const number = Number(value);
+	return value.trim() !== '' && number >= min && number <= max ? number : undefined;
+};
+
+const ROOT_MARGIN_PATTERN = /^-?(\d+|\d*\.\d+)(px|%)( -?(\d+|\d*\.\d+)(px|%)){0,3}$/;
+
+const ATTRIBUTE_SCHEMA: { [K in keyof ClassyElementOptions]-?: AttributeRule<NonNullable<ClassyElementOptions[K]>> } = {
+	class: {
+		attribute: 'data-cs-class',
+		expected: 'one or more class names',
+		parse: value => value.trim().replace(/\s+/g, ' ') || undefined,
+	},
+	removeClass: {
+		attribute: 'data-cs-remove-class',
+		expected: 'one or more class names',
+		parse: value => value.trim().replace(/\s+/g, ' ') || undefined,
+	},
+	delay: {
+		attribute: 'data-cs-delay',
+		expected: 'a number of milliseconds (0 or more)',
+		parse: parseNumber(0, Infinity),
+	},
+	threshold: {
+		attribute: 'data-cs-threshold',
+		expected: 'a number between 0 and 1',
+		parse: parseNumber(0, 1),
+	},
+	rootMargin: {
+		attribute: 'data-cs-root-margin',
+		expected: '1 to 4 px or % values, e.g. "-10% 0px"',
+		parse: value => ROOT_MARGIN_PATTERN.test(value.trim()) ? value.trim() : undefined,
+	},
+	persistent: {
+		attribute: 'data-cs-persistent',
+		expected: '"true", "false" or no value',
+		parse: (value) => {
+			const trimmed = value.trim();
+			return trimmed === 'false' ? false : trimmed === '' || trimmed === 'true' ? true : undefined;
+		},
+	},
+	stagger: {
+		attribute: 'data-cs-stagger',
+		expected: 'a number of milliseconds (0 or more)',
+		parse: parseNumber(0, Infinity),
+	},
+	target: {
+		attribute: 'data-cs-target',
+		expected: 'a CSS selector',
+		parse: (value) => {
+			try {
+				document.querySelector(value);
+				return value.trim() || undefined;
+			} catch {
+				return undefined;
+			}
+		},
+	},
+	targetClass: {
+		attribute: 'data-cs-target-class',
+		expected: 'one or more class names',
+		parse: value => value.trim().replace(/\s+/g, ' ') || undefined,
+	},
+	activeGroup: {
+		attribute: 'data-cs-active-group',
+		expected: 'a group name',
+		parse: value => value.trim() || undefined,
+	},
+};
+
+/**
+ * Reads every `data-cs-*` override of an element.
+ * Invalid values are reported with `console.warn` and ignored, so the instance-wide option applies instead.
+ */
+const parseElementOptions = (element: HTMLElement): ClassyElementOptions => {
+	const elementOptions: Record<string, unknown> = {};
+
+	(Object.keys(ATTRIBUTE_SCHEMA) as (keyof ClassyElementOptions)[]).forEach((key) => {
+		const { attribute, expected, parse } = ATTRIBUTE_SCHEMA[key];
+		const value = element.getAttribute(attribute);
+		if (value === null) return;
+
+		const parsed = parse(value);
+		if (parsed === undefined) {
+			console.warn(`[classy-scroll] Ignoring invalid ${attribute}="${value}", expected ${expected}.`, element);
+		} else {
+			elementOptions[key] = parsed;
+		}
+	});
+
+	return elementOptions as ClassyElementOptions;
+};
+
+/** Options resolved for a single element: attribute overrides on top of the instance config. */
+type ElementSettings = {
+	classes: string[];
+	removeClasses: string[];
+	delay: number;
+	threshold: number;
+	rootMargin: string;
+	persistent: boolean;
+	stagger: number;
+	/** Selector of the linked elements, or '' for none. */
+	target: string;
+	targetClasses: string[];
+	activeGroup: string;
+};
+
+type GhostLayout = {
+	top: number;
+	left: number;
+	width: number;
+	height: number;
+};
+
+type TrackingGeometry = {
+	/** `null` when the element is tracked directly. */
+	ghost: HTMLElement | null;
+	/** The node handed to the IntersectionObserver: the ghost, or the element itself. */
+	target: HTMLElement;
 	top: number;
+	left: number;
+	width: number;
 	height: number;
 };
 
+type ElementState = TrackingGeometry & {
+	settings: ElementSettings;
+	/** `null` when IntersectionObserver is unavailable and no polling fallback is used. */
+	observer: SharedObserver | null;
+	timeoutId?: number;
+	/** "From" classes that were actually present and removed when the classes were applied. */
+	removedClasses?: string[];
+	progress?: number;
+	direction?: ClassyScrollDirection;
+	entry?: IntersectionObserverEntry;
+	queuedAt?: number;
+	/** When a queued element is due to be revealed. */
+	revealAt?: number;
+	/** Impression tracking, only with `dwell`. */
+	dwell?: DwellState;
+};
+
+type DwellState = {
+	isInView: boolean;
+	/** Time in view before the running measurement. */
+	visibleTime: number;
+	/** Time in view of the current stretch before the running measurement. */
+	stretch: number;
+	/** Start of the running measurement, while in view and the tab is visible. */
+	since?: number;
+	timeoutId?: number;
+	isSeen: boolean;
+};
+
+/** Computed properties that move or resize an element when its classes change. */
+const GEOMETRY_PROPERTIES = [
+	'position', 'top', 'right', 'bottom', 'left', 'width', 'height', 'transform', 'translate', 'scale', 'rotate',
+	'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+	'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+	'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width',
+];
+
+const DIRECTION_CLASSES = ['cs-enter-from-top', 'cs-enter-from-bottom', 'cs-exit-top', 'cs-exit-bottom'];
+
+const REDUCED_MOTION_CLASS = 'cs-reduced-motion';
+
+/** Splits a space-separated class list, dropping the empty tokens that `classList` rejects. */
+const toClassList = (value: string) => value.split(/\s+/).filter(Boolean);
+
+/** Active-section mode compares visible heights, so grouped elements are reported every 5% of their height. */
+const ACTIVE_GROUP_THRESHOLDS = Array.from({ length: 21 }, (_, index) => index / 20);
+
+const STAGGER_EASINGS: Record<string, (progress: number) => number> = {
+	'linear': progress => progress,
+	'ease-in': progress => progress * progress,
+	'ease-out': progress => progress * (2 - progress),
+	'ease-in-out': progress => progress < 0.5 ? 2 * progress * progress : -1 + (4 - 2 * progress) * progress,
+};
+
+/** Whether reveals can run as scroll-driven animations. */
+const supportsViewTimeline = () => typeof CSS !== 'undefined' && !!CSS.supports?.('animation-timeline: view()');
+
+/**
+ * Converts a root margin into a block-axis `view()` inset: margins grow the root, insets shrink it.
+ * Returns `null` for horizontal margins, which a vertical view timeline can't express.
+ */
+const toViewInset = (rootMargin: string) => {
+	const [top, right = top, bottom = top, left = right] = rootMargin.trim().split(/\s+/);
+	if (parseFloat(right) !== 0 || parseFloat(left) !== 0) return null;
+
+	const negate = (value: string) => parseFloat(value) === 0 ? '0px' : value.startsWith('-') ? value.slice(1) : `-${value}`;
+	return `${negate(top)} ${negate(bottom)}`;
+};
+
+/** Elements revealed before any scroll happened are treated as entering from the bottom. */
+const INITIAL_DIRECTION: ClassyScrollDirection = { edge: 'bottom', direction: 'down' };
+
+type IntersectionHandler = (entries: IntersectionObserverEntry[]) => void;
+
+/**
+ * An IntersectionObserver shared by every instance using the same root, threshold and rootMargin.
+ * Entries are routed back to every instance observing the target: usually one per ghost,
+ * but several instances can track the same element directly.
+ */
+type SharedObserver = {
+	observer: Pick<IntersectionObserver, 'observe' | 'unobserve' | 'disconnect'>;
+	handlers: Map<Element, Set<IntersectionHandler>>;
+	root: Element | null;
+	key: string;
+	users: number;
+};
+
+const observerPool = new Map<Element | null, Map<string, SharedObserver>>();
+
+/** Observers for different purposes are kept apart, so a target can be observed for each of them. */
+const acquireObserver = (root: Element | null, threshold: number | number[], rootMargin: string, purpose: 'reveal' | 'dwell' = 'reveal'): SharedObserver => {
+	const key = `${purpose}|${threshold}|${rootMargin}`;
+	let observersForRoot = observerPool.get(root);
+	if (!observersForRoot) {
+		observersForRoot = new Map();
+		observerPool.set(root, observersForRoot);
+	}
+
+	let shared = observersForRoot.get(key);
+	if (!shared) {
+		const handlers = new Map<Element, Set<IntersectionHandler>>();
+		const observer = new IntersectionObserver((entries) => {
+			// Keep each instance's entries together so a batch still staggers as one.
+			const batches = new Map<IntersectionHandler, IntersectionObserverEntry[]>();
+			entries.forEach((entry) => {
+				handlers.get(entry.target)?.forEach(handler => batches.set(handler, [...(batches.get(handler) ?? []), entry]));
+			});
+			batches.forEach((batch, handler) => handler(batch));
+		}, { root, threshold, rootMargin });
+
+		shared = { observer, handlers, root, key, users: 0 };
+		observersForRoot.set(key, shared);
+	}
+
+	shared.users++;
+	return shared;
+};
+
+const releaseObserver = (shared: SharedObserver) => {
+	if (--shared.users > 0) return;
+
+	shared.observer.disconnect();
+	const observersForRoot = observerPool.get(shared.root);
+	// Polling fallbacks belong to a single instance and never enter the pool.
+	if (observersForRoot?.get(shared.key) !== shared) return;
+	observersForRoot.delete(shared.key);
+	if (!observersForRoot.size) observerPool.delete(shared.root);
+};
+
+const observeTarget = (shared: SharedObserver, target: Element, handler: IntersectionHandler) => {
+	const targetHandlers = shared.handlers.get(target);
+	if (targetHandlers?.has(handler)) return;
+
+	if (targetHandlers) {
+		// Observing again makes the observer report the current state, which the new handler needs as well.
+		targetHandlers.add(handler);
+		shared.observer.unobserve(target);
+	} else {
+		shared.handlers.set(target, new Set([handler]));
+	}
+	shared.observer.observe(target);
+};
+
+/** Stops reporting a target to one handler; the target is only unobserved once no handler is left. */
+const unobserveTarget = (shared: SharedObserver, target: Element, handler: IntersectionHandler) => {
+	const targetHandlers = shared.handlers.get(target);
+	if (!targetHandlers?.delete(handler) || targetHandlers.size) return;
+
+	shared.handlers.delete(target);
+	shared.observer.unobserve(target);
+};
+
+/** Roots made `position: relative` for their ghosts, with the inline position to restore once no instance uses them. */
+const positionedRoots = new Map<HTMLElement, { position: string; users: number }>();
+
+/** Gives a root a containing block for its ghosts. Returns the release function. */
+const acquireRootPosition = (root: HTMLElement) => {
+	let positioned = positionedRoots.get(root);
+	if (!positioned) {
+		positioned = { position: root.style.position, users: 0 };
+		positionedRoots.set(root, positioned);
+		if (['', 'static'].includes(getComputedStyle(root).position)) root.style.position = 'relative';
+	}
+	positioned.users++;
+
+	return () => {
+		if (--positioned.users > 0) return;
+		positionedRoots.delete(root);
+		root.style.position = positioned.position;
+	};
+};
+
+/** One debounced window resize listener for all instances. */
+const resizeSubscribers = new Set<() => void>();
+let resizeTimer: number;
+
+const onWindowResize = () => {
+	clearTimeout(resizeTimer);
+	resizeTimer = window.setTimeout(() => resizeSubscribers.forEach(subscriber => subscriber()), 150);
+};
+
+const subscribeResize = (subscriber: () => void) => {
+	if (!resizeSubscribers.size) window.addEventListener('resize', onWindowResize, { passive: true });
+	resizeSubscribers.add(subscriber);
+
+	return () => {
+		resizeSubscribers.delete(subscriber);
+		if (resizeSubscribers.size) return;
+		window.removeEventListener('resize', onWindowResize);
+		clearTimeout(resizeTimer);
+	};
+};
+
+const noop = () => {};
+
+/** Plain stand-in for `DOMRectReadOnly`, which environments without IntersectionObserver may lack as well. */
+const createRect = (x: number, y: number, width: number, height: number): DOMRectReadOnly => ({
+	x, y, width, height,
+	top: y,
+	left: x,
+	right: x + width,
+	bottom: y + height,
+	toJSON: () => ({ x, y, width, height }),
+});
+
+/**
+ * Resolves a `rootMargin` of 1 to 4 values like CSS `margin` shorthand.
+ * Percentages are relative to the root's height vertically and to its width horizontally.
+ */
+const parseMargins = (margin: string, { width, height }: { width: number; height: number }) => {
+	const [top, right = top, bottom = top, left = right] = margin.trim().split(/\s+/);
+	const resolve = (value: string, size: number) => (value.endsWith('%') ? (parseFloat(value) / 100) * size : parseFloat(value)) || 0;
+
+	return {
+		top: resolve(top, height),
+		right: resolve(right, width),
+		bottom: resolve(bottom, height),
+		left: resolve(left, width),
+	};
+};
+
+/** A debug-enabled instance drawing onto the shared overlay. */
+type DebugLayer = {
+	draw: (ctx: CanvasRenderingContext2D, color: string) => void;
+	/** The instance's line in the legend. */
+	describe: () => string;
+};
+
+const DEBUG_COLORS = ['#2563eb', '#db2777', '#0d9488', '#9333ea', '#ea580c', '#0891b2'];
+
+const DEBUG_STATUS_COLORS: Record<ClassyScrollStatus, string> = {
+	pending: 'rgba(148, 163, 184, 0.9)',
+	queued: 'rgba(245, 158, 11, 0.9)',
+	delayed: 'rgba(245, 158, 11, 0.9)',
+	active: 'rgba(34, 197, 94, 0.9)',
+};
+
+/** One canvas for every debug-enabled instance. Each layer keeps the colour it was given. */
+const debugLayers = new Map<DebugLayer, string>();
+let debugCanvas: HTMLCanvasElement | null = null;
+let debugContext: CanvasRenderingContext2D | null = null;
+let debugFrame = 0;
+
+const drawDebugOverlay = () => {
+	debugFrame = 0;
+	const ctx = debugContext;
+	if (!ctx || debugCanvas!.style.display === 'none') return;
+
+	ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
+	debugLayers.forEach((color, layer) => layer.draw(ctx, color));
+
+	ctx.font = 'bold 10px system-ui, -apple-system, sans-serif';
+	ctx.textAlign = 'left';
+	ctx.textBaseline = 'middle';
+	let y = 8;
+	debugLayers.forEach((color, layer) => {
+		const text = layer.describe();
+		ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+		ctx.fillRect(8, y, ctx.measureText(text).width + 30, 18);
+		ctx.fillStyle = color;
+		ctx.fillRect(14, y + 5, 8, 8);
+		ctx.fillStyle = '#ffffff';
+		ctx.fillText(text, 28, y + 9);
+		y += 22;
+	});
+};
+
+/** Draws on the next frame. The overlay only redraws on scroll, resize or state changes. */
+const requestDebugDraw = () => {
+	if (debugLayers.size && !debugFrame) debugFrame = requestAnimationFrame(drawDebugOverlay);
+};
+
+const resizeDebugCanvas = () => {
+	if (!debugCanvas || !debugContext) return;
+	const dpr = window.devicePixelRatio || 1;
+	debugCanvas.width = window.innerWidth * dpr;
+	debugCanvas.height = window.innerHeight * dpr;
+	debugContext.scale(dpr, dpr);
+	requestDebugDraw();
+};
+
+/** `Alt+Shift+D` hides or shows the overlay at runtime. */
+const onDebugKey = (event: KeyboardEvent) => {
+	if (!debugCanvas || !event.altKey || !event.shiftKey || event.code !== 'KeyD') return;
+	debugCanvas.style.display = debugCanvas.style.display === 'none' ? '' : 'none';
+	requestDebugDraw();
+};
+
+const subscribeDebug = (layer: DebugLayer) => {
+	if (!debugLayers.size) {
+		debugCanvas = document.createElement('canvas');
+		Object.assign(debugCanvas.style, {
+			position: 'fixed', top: '0', left: '0',
+			width: '100vw', height: '100vh',
+			pointerEvents: 'none', zIndex: '2147483646',
+		});
+		document.body.appendChild(debugCanvas);
+		debugContext = debugCanvas.getContext('2d');
+		resizeDebugCanvas();
+
+		// Capturing on window also catches scroll containers, whose scroll events don't bubble.
+		window.addEventListener('scroll', requestDebugDraw, { capture: true, passive: true });
+		window.addEventListener('resize', resizeDebugCanvas, { passive: true });
+		window.addEventListener('keydown', onDebugKey);
+	}
+
+	const usedColors = new Set(debugLayers.values());
+	debugLayers.set(layer, DEBUG_COLORS.find(color => !usedColors.has(color)) ?? DEBUG_COLORS[debugLayers.size % DEBUG_COLORS.length]);
+	requestDebugDraw();
+
+	return () => {
+		debugLayers.delete(layer);
+		if (debugLayers.size) {
+			requestDebugDraw();
+			return;
+		}
+
+		window.removeEventListener('scroll', requestDebugDraw, { capture: true });
+		window.removeEventListener('resize', resizeDebugCanvas);
+		window.removeEventListener('keydown', onDebugKey);
+		cancelAnimationFrame(debugFrame);
+		debugFrame = 0;
+		debugCanvas?.remove();
+		debugCanvas = null;
+		debugContext = null;
+	};
+};
+
 /**
  * Initializes a high-performance scroll observer.
  * * @param targetInput - A CSS selector string, HTMLElement, NodeList, or Array of elements.
  * @param options - Configuration options to customize the scroll behavior.
- * @returns An object containing a `destroy()` method to cleanly remove observers and event listeners.
+ * @returns A controller to add, remove or refresh targets and to `destroy()` the instance.
  */
 export function classyScroll(
 	targetInput: ClassyTargets,
 	options: ClassyScrollOptions = {},
-): { destroy: () => void } {
+): ClassyScrollController {
+	// Server-side rendering: there is nothing to observe, so hand back an inert controller.
+	if (typeof window === 'undefined' || typeof document === 'undefined') {
+		return {
+			add: noop,
+			remove: noop,
+			refresh: noop,
+			pause: noop,
+			resume: noop,
+			reset: noop,
+			revealAll: noop,
+			getState: () => new Map(),
+			getVisibleTime: () => new Map(),
+			destroy: noop,
+		};
+	}
+
 	const config = {
 		className: options.class || 'is-visible',
+		removeClass: options.removeClass?.trim() ?? '',
 		threshold: options.threshold ?? 0.1,
 		rootMargin: options.rootMargin || '0px',
 		persistent: options.persistent ?? true,
 		stagger: options.stagger ?? 0,
+		targetClass: options.targetClass?.trim() || 'is-active',
+		activeGroup: options.activeGroup ?? '',
+		staggerGroup: options.staggerGroup ?? 'queue',
+		staggerOrder: options.staggerOrder ?? 'arrival',
+		staggerMax: options.staggerMax ?? Infinity,
+		staggerEase: typeof options.staggerEase === 'function' ? options.staggerEase : STAGGER_EASINGS[options.staggerEase ?? 'linear'],
 		delay: options.delay ?? 0,
+		reducedMotion: options.reducedMotion ?? 'instant',
+		tracking: options.tracking ?? 'ghost',
+		engine: options.engine ?? 'observer',
+		hydrate: options.hydrate ?? false,
+		fallback: options.fallback ?? 'reveal-all',
+		print: options.print ?? true,
+		hash: options.hash ?? true,
 		debug: options.debug ?? false,
+		progress: options.progress ?? false,
+		direction: options.direction ?? false,
+		events: options.events ?? true,
+		dwell: options.dwell ?? 0,
+		dwellThreshold: options.dwellThreshold ?? 0.5,
+		seenClasses: toClassList(options.seenClass ?? ''),
+		watch: options.watch ?? false,
+		stages: options.stages?.length
+			? [...options.stages]
+				.sort((a, b) => a.threshold - b.threshold)
+				.map(stage => ({
+					threshold: stage.threshold,
+					className: stage.class,
+					persistent: stage.persistent,
+				}))
+			: null,
 	};
 
 	const debugName = typeof targetInput === 'string' ? targetInput : 'Element';
+	const rootElement = typeof options.root === 'string'
+		? document.querySelector<HTMLElement>(options.root)
+		: (options.root as HTMLElement | null | undefined) ?? null;
 	const trackedElements = new Map<HTMLElement, ElementState>();
+	/** Elements driven by the CSS engine, with the inline animation styles they had before. */
+	const cssElements = new Map<HTMLElement, { timeline: string; range: string }>();
+	/** Elements taken out with `remove()`, which re-resolving the selector must not bring back. */
+	const removedElements = new WeakSet<HTMLElement>();
+	let hasWarnedEngine = false;
+	/** Staggered elements waiting to be revealed, ordered by `revealAt`. */
 	const queue: HTMLElement[] = [];
-	let isProcessingQueue = false;
+	let queueTimer: number | undefined;
+	/** Earliest start of the next element in a continuing group (`queue` itself, or a parent container). */
+	const staggerTails = new Map<object, number>();
+	let pausedAt: number | null = null;
+	/** Latest entry per target reported while paused, replayed on resume. */
+	const pausedEntries = new Map<Element, IntersectionObserverEntry>();
+	/** Elements whose delay was cancelled by `pause()` and restarts on resume. */
+	const pausedDelays = new Set<HTMLElement>();
 
-	const isReducedMotion = () => window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+	// Some WebViews and headless crawlers lack `matchMedia`; treat that as no preference.
+	const motionQuery = typeof window.matchMedia === 'function' ? window.matchMedia('(prefers-reduced-motion: reduce)') : null;
+	let prefersReducedMotion = motionQuery?.matches ?? false;
 
 	const getComputedTranslate = (el: HTMLElement): { x: number; y: number } => {
 		const transform = getComputedStyle(el).transform;
@@ -71,23 +861,135 @@ export function classyScroll(
 			: { x: valueues[4] || 0, y: valueues[5] || 0 };
 	};
 
-	const createGhost = (element: HTMLElement): ElementState => {
+	const ghostParent = rootElement ?? document.body;
+	let releaseRootPosition = rootElement ? acquireRootPosition(rootElement) : noop;
+
+	/** Visible area of the root in viewport coordinates, excluding borders and scrollbars. */
+	const getRootBounds = () => {
+		if (!rootElement) {
+			return { top: 0, left: 0, width: window.innerWidth, height: window.innerHeight };
+		}
+		const rect = rootElement.getBoundingClientRect();
+		return {
+			top: rect.top + rootElement.clientTop,
+			left: rect.left + rootElement.clientLeft,
+			width: rootElement.clientWidth,
+			height: rootElement.clientHeight,
+		};
+	};
+
+	const getScrollOffset = () => rootElement
+		? { x: rootElement.scrollLeft, y: rootElement.scrollTop }
+		: { x: window.scrollX, y: window.scrollY };
+
+	const resolveSettings = (element: HTMLElement): ElementSettings => {
+		const elementOptions = parseElementOptions(element);
+		const activeGroup = config.stages ? '' : elementOptions.activeGroup ?? config.activeGroup;
+		return {
+			classes: (elementOptions.class ?? config.className).split(' '),
+			removeClasses: toClassList(elementOptions.removeClass ?? config.removeClass),
+			delay: elementOptions.delay ?? config.delay,
+			threshold: elementOptions.threshold ?? config.threshold,
+			rootMargin: elementOptions.rootMargin ?? config.rootMargin,
+			persistent: !activeGroup && (elementOptions.persistent ?? config.persistent),
+			stagger: activeGroup ? 0 : elementOptions.stagger ?? config.stagger,
+			target: elementOptions.target ?? '',
+			targetClasses: toClassList(elementOptions.targetClass ?? config.targetClass),
+			activeGroup,
+		};
+	};
+
+	/** Every class the library may add to an element, so ghosts never inherit an active state. */
+	const getManagedClasses = (settings: ElementSettings): string[] => [
+		...(config.stages
+			? config.stages.flatMap(stage => stage.className.split(' '))
+			: settings.classes),
+		...(config.direction ? DIRECTION_CLASSES : []),
+	];
+
+	/** Whether an element carries any of the classes this instance adds to it. */
+	const carriesClasses = (element: HTMLElement, settings: ElementSettings) => (
+		(config.stages ? config.stages.flatMap(stage => stage.className.split(' ')) : settings.classes)
+			.some(name => element.classList.contains(name))
+	);
+
+	/** Reads the untransformed layout box of an element, relative to the root's scrollable content. */
+	const measureLayout = (element: HTMLElement): GhostLayout => {
 		const rect = element.getBoundingClientRect();
 		const naturalTranslate = getComputedTranslate(element);
+		const bounds = getRootBounds();
+		const scroll = getScrollOffset();
 
-		const layoutTop = rect.top + window.scrollY - naturalTranslate.y;
-		const layoutLeft = rect.left + window.scrollX - naturalTranslate.x;
+		return {
+			top: rect.top - bounds.top + scroll.y - naturalTranslate.y,
+			left: rect.left - bounds.left + scroll.x - naturalTranslate.x,
+			width: rect.width,
+			height: rect.height,
+		};
+	};
 
+	const placeGhost = (ghost: HTMLElement, layout: GhostLayout) => {
+		Object.assign(ghost.style, {
+			top: `${layout.top}px`,
+			left: `${layout.left}px`,
+			width: `${layout.width}px`,
+			height: `${layout.height}px`,
+		});
+	};
+
+	/**
+	 * Compares the start and active state of an element using two hidden, unrendered probes,
+	 * so no transition or animation on the real element is triggered.
+	 * `removedClasses` are the "from" classes an already active element had swapped out.
+	 */
+	const classesShiftGeometry = (element: HTMLElement, settings: ElementSettings, removedClasses: string[]) => {
+		const createProbe = (isActive: boolean) => {
+			const probe = element.cloneNode(false) as HTMLElement;
+			probe.removeAttribute('id');
+			probe.classList.remove(...getManagedClasses(settings));
+			probe.classList.add(...removedClasses);
+			if (isActive) {
+				probe.classList.remove(...settings.removeClasses);
+				probe.classList.add(...getManagedClasses(settings));
+			}
+			Object.assign(probe.style, { display: 'none', transition: 'none', animation: 'none' });
+			element.after(probe);
+			return probe;
+		};
+
+		const start = createProbe(false);
+		const active = createProbe(true);
+		const startStyle = getComputedStyle(start);
+		const activeStyle = getComputedStyle(active);
+		const isShifted = GEOMETRY_PROPERTIES.some(property => startStyle.getPropertyValue(property) !== activeStyle.getPropertyValue(property));
+
+		start.remove();
+		active.remove();
+		return isShifted;
+	};
+
+	const needsGhost = (element: HTMLElement, settings: ElementSettings, removedClasses: string[]) => {
+		if (config.tracking !== 'auto') return config.tracking === 'ghost';
+		const translate = getComputedTranslate(element);
+		return translate.x !== 0 || translate.y !== 0 || classesShiftGeometry(element, settings, removedClasses);
+	};
+
+	/**
+	 * Ghosts mirror the start state: active classes are stripped and swapped-out "from" classes restored,
+	 * so the trigger geometry doesn't depend on the current state.
+	 * `id`, `name` and `data-*` attributes are scrubbed so ghosts never collide with the real element in selectors or scripts.
+	 */
+	const createGhost = (element: HTMLElement, settings: ElementSettings, layout: GhostLayout, removedClasses: string[]): HTMLElement => {
 		const ghost = element.cloneNode(false) as HTMLElement;
-		const activeClasses = (element.dataset.csClass || config.className).split(' ');
-		ghost.classList.remove(...activeClasses);
+		ghost.classList.remove(...getManagedClasses(settings));
+		ghost.classList.add(...removedClasses);
+		Array.from(ghost.attributes).forEach(({ name }) => {
+			if (name === 'id' || name === 'name' || name.startsWith('data-')) ghost.removeAttribute(name);
+		});
 
+		placeGhost(ghost, layout);
 		Object.assign(ghost.style, {
 			position: 'absolute',
-			top: `${layoutTop}px`,
-			left: `${layoutLeft}px`,
-			width: `${rect.width}px`,
-			height: `${rect.height}px`,
 			visibility: 'hidden',
 			pointerEvents: 'none',
 			margin: '0',
@@ -99,246 +1001,1199 @@ export function classyScroll(
 
 		ghost.setAttribute('aria-hidden', 'true');
 		ghost.dataset.csGhost = 'true';
-		document.body.appendChild(ghost);
+		ghostParent.appendChild(ghost);
+
+		return ghost;
+	};
+
+	const createTracking = (element: HTMLElement, settings: ElementSettings, removedClasses: string[] = []): TrackingGeometry => {
+		const layout = measureLayout(element);
+		const ghost = needsGhost(element, settings, removedClasses) ? createGhost(element, settings, layout, removedClasses) : null;
 
 		return {
 			ghost,
-			top: layoutTop,
-			height: rect.height,
+			target: ghost ?? element,
+			top: layout.top,
+			left: layout.left,
+			width: layout.width,
+			height: layout.height,
 		};
 	};
 
-	const applyClass = (element: HTMLElement) => {
-		const elementClass = element.dataset.csClass || config.className;
-		const elementDelay = parseInt(element.dataset.csDelay || '0', 10) || config.delay;
+	/** Redraws the debug overlay when an element's status changes without any scrolling. */
+	const scheduleDebugDraw = () => {
+		if (config.debug) requestDebugDraw();
+	};
+
+	/**
+	 * Mirrors whether an element is active onto its `data-cs-target` elements.
+	 * A linked element keeps the classes that another active element of this instance still links to it.
+	 */
+	const syncTargets = (element: HTMLElement, state: ElementState) => {
+		if (!state.settings.target) return;
+		const { target, targetClasses } = state.settings;
+		const isActive = getStatus(element, state) === 'active';
+		const activeSources = isActive ? [] : Array.from(trackedElements).filter(([source, sourceState]) => (
+			source !== element && sourceState.settings.target && getStatus(source, sourceState) === 'active'
+		));
+
+		document.querySelectorAll(target).forEach((linked) => {
+			if (isActive) {
+				linked.classList.add(...targetClasses);
+				return;
+			}
+			const kept = activeSources
+				.filter(([, { settings }]) => linked.matches(settings.target))
+				.flatMap(([, { settings }]) => settings.targetClasses);
+			linked.classList.remove(...targetClasses.filter(name => !kept.includes(name)));
+		});
+	};
+
+	const emit = (isEnter: boolean, element: HTMLElement, classes: string[], delay = 0, stagger = 0) => {
+		const state = trackedElements.get(element)!;
+		const direction = state.direction ?? INITIAL_DIRECTION;
+		const isDown = direction.direction === 'down';
+		const hook = isEnter
+			? (isDown ? options.onEnter : options.onEnterBack)
+			: (isDown ? options.onLeave : options.onLeaveBack);
+
+		const event: ClassyScrollEvent = { element, ghost: state.ghost, entry: state.entry!, direction, classes, delay, stagger };
+		syncTargets(element, state);
+		scheduleDebugDraw();
+
+		hook?.(event);
+		if (isEnter) options.callback?.(element, direction);
+		if (config.events) {
+			element.dispatchEvent(new CustomEvent(isEnter ? 'cs:enter' : 'cs:leave', { bubbles: true, detail: event }));
+		}
+	};
+
+	/** The delay and stagger to apply to an element under the current reduced-motion policy. */
+	const getTiming = (element: HTMLElement): ClassyScrollTiming => {
+		const { delay, stagger } = trackedElements.get(element)!.settings;
+		if (!prefersReducedMotion || config.reducedMotion === 'respect-delays') return { delay, stagger };
+		if (typeof config.reducedMotion === 'function') return config.reducedMotion(element, { delay, stagger });
+		return { delay: 0, stagger: 0 };
+	};
+
+	const isRevealingAll = () => prefersReducedMotion && config.reducedMotion === 'reveal-all-immediately';
+
+	const applyClass = (element: HTMLElement, stagger = 0) => {
+		const state = trackedElements.get(element)!;
+		const { classes } = state.settings;
+		const { delay } = getTiming(element);
+		const appliedDelay = delay > 0 ? delay : 0;
 
 		const execute = () => {
-			element.classList.add(...elementClass.split(' '));
-			options.callback?.(element);
+			state.removedClasses = state.settings.removeClasses.filter(name => element.classList.contains(name));
+			element.classList.remove(...state.removedClasses);
+			element.classList.add(...classes);
+			emit(true, element, classes, appliedDelay, stagger);
 		};
 
-		if (elementDelay > 0 && !isReducedMotion()) {
-			const id = window.setTimeout(execute, elementDelay);
-			const state = trackedElements.get(element);
-			if (state) state.timeoutId = id;
+		if (appliedDelay > 0) {
+			state.timeoutId = window.setTimeout(() => {
+				state.timeoutId = undefined;
+				execute();
+			}, appliedDelay);
+			scheduleDebugDraw();
 		} else {
 			execute();
 		}
 	};
 
+	/** Reveals every queued element that is due and sets a single timer for the next one. */
 	const processQueue = () => {
-		if (queue.length === 0) {
-			isProcessingQueue = false;
-			return;
+		clearTimeout(queueTimer);
+		queueTimer = undefined;
+		const now = Date.now();
+
+		while (queue.length && trackedElements.get(queue[0])!.revealAt! <= now) {
+			const element = queue.shift()!;
+			applyClass(element, now - trackedElements.get(element)!.queuedAt!);
 		}
 
-		isProcessingQueue = true;
-		const element = queue.shift()!;
-		applyClass(element);
+		if (queue.length) queueTimer = window.setTimeout(processQueue, trackedElements.get(queue[0])!.revealAt! - now);
+	};
+
+	/**
+	 * Schedules the elements of one intersection batch. Within each group the gaps add up in order
+	 * and are redistributed along `staggerEase`. When the group's total wait, including elements still
+	 * queued from earlier batches, exceeds `staggerMax`, the whole group is compressed to fit.
+	 * Re-timed elements keep the time they were first queued at.
+	 */
+	const enqueue = (elements: HTMLElement[], isRetiming = false) => {
+		const now = Date.now();
+		const batch = {};
+		staggerTails.forEach((tail, key) => {
+			if (tail <= now) staggerTails.delete(key);
+		});
+		const getGroupKey = (element: HTMLElement): object => config.staggerGroup === 'queue'
+			? queue
+			: config.staggerGroup === 'parent' ? element.parentElement ?? batch : batch;
+		const groups = new Map<object, HTMLElement[]>();
+
+		elements.forEach((element) => {
+			const key = getGroupKey(element);
+			groups.set(key, [...(groups.get(key) ?? []), element]);
+		});
+
+		groups.forEach((arrivals, key) => {
+			if (config.staggerOrder === 'position') {
+				arrivals.sort((a, b) => {
+					const stateA = trackedElements.get(a)!;
+					const stateB = trackedElements.get(b)!;
+					return stateA.top - stateB.top || stateA.left - stateB.left;
+				});
+			}
+
+			const gaps = arrivals.map(element => getTiming(element).stagger);
+			const offsets = gaps.map((_, index) => gaps.slice(0, index).reduce((sum, gap) => sum + gap, 0));
+			const spread = offsets[offsets.length - 1];
+			const lead = Math.max(now, staggerTails.get(key) ?? now) - now;
+			// Elements of a continuing group still waiting from earlier batches count towards `staggerMax` too.
+			// A batch never continues, so elements queued by earlier batches keep their own timing.
+			const waiting = key === batch ? [] : queue.filter(element => getGroupKey(element) === key);
+			const waits = [
+				...waiting.map(element => trackedElements.get(element)!.revealAt! - now),
+				...offsets.map(offset => lead + Math.round(spread * config.staggerEase(spread > 0 ? offset / spread : 0))),
+			];
+			const total = waits[waits.length - 1];
+			const scale = total > config.staggerMax ? config.staggerMax / total : 1;
+
+			[...waiting, ...arrivals].forEach((element, index) => {
+				const state = trackedElements.get(element)!;
+				if (index >= waiting.length) {
+					if (!isRetiming) state.queuedAt = now;
+					queue.push(element);
+				}
+				state.revealAt = now + Math.round(waits[index] * scale);
+			});
+			staggerTails.set(key, now + (total + gaps[gaps.length - 1]) * scale);
+		});
 
-		const wait = isReducedMotion() ? 0 : config.stagger;
-		setTimeout(processQueue, wait);
+		queue.sort((a, b) => trackedElements.get(a)!.revealAt! - trackedElements.get(b)!.revealAt!);
+		processQueue();
 	};
 
-	const observer = new IntersectionObserver((entries) => {
+	const getDirection = (entry: IntersectionObserverEntry, isEntering = entry.isIntersecting): ClassyScrollDirection => {
+		const rootTop = entry.rootBounds?.top ?? getRootBounds().top;
+		const edge = entry.boundingClientRect.top < rootTop ? 'top' : 'bottom';
+		const isDown = isEntering === (edge === 'bottom');
+		return { edge, direction: isDown ? 'down' : 'up' };
+	};
+
+	const applyDirection = (element: HTMLElement, isIntersecting: boolean, { edge, direction }: ClassyScrollDirection) => {
+		element.classList.remove(...DIRECTION_CLASSES);
+		element.classList.add(isIntersecting ? `cs-enter-from-${edge}` : `cs-exit-${edge}`);
+		element.dataset.csDirection = direction;
+	};
+
+	const updateStages = (entry: IntersectionObserverEntry, element: HTMLElement) => {
+		const ratio = entry.isIntersecting ? entry.intersectionRatio : -1;
+		const state = trackedElements.get(element)!;
+		let isSettled = true;
+
+		config.stages!.forEach((stage) => {
+			const classes = stage.className.split(' ');
+			const isActive = element.classList.contains(classes[0]);
+			const isPersistent = stage.persistent ?? state.settings.persistent;
+
+			if (ratio >= stage.threshold) {
+				if (!isActive) {
+					state.direction = getDirection(entry, true);
+					element.classList.add(...classes);
+					emit(true, element, classes);
+				}
+			} else if (!isPersistent && isActive) {
+				state.direction = getDirection(entry, false);
+				element.classList.remove(...classes);
+				emit(false, element, classes);
+			}
+
+			if (!isPersistent || !element.classList.contains(classes[0])) isSettled = false;
+		});
+
+		if (isSettled) unobserveTarget(state.observer!, entry.target, onIntersect);
+	};
+
+	/** Drops an element from the stagger queue and cancels its pending delay. */
+	const cancelPending = (element: HTMLElement, state: ElementState) => {
+		const queueIndex = queue.indexOf(element);
+		if (queueIndex > -1) queue.splice(queueIndex, 1);
+		pausedDelays.delete(element);
+
+		if (state.timeoutId) {
+			clearTimeout(state.timeoutId);
+			state.timeoutId = undefined;
+		}
+	};
+
+	/** Takes the classes off an element again and restores the "from" classes it had. */
+	const deactivate = (element: HTMLElement, state: ElementState) => {
+		cancelPending(element, state);
+
+		const { classes } = state.settings;
+		if (!element.classList.contains(classes[0])) return;
+		element.classList.remove(...classes);
+		element.classList.add(...(state.removedClasses ?? []));
+		state.removedClasses = undefined;
+		emit(false, element, classes);
+	};
+
+	/** Active-section mode: the group member with the most visible height gets the classes, every other member loses them. */
+	const updateActiveGroup = (group: string) => {
+		let winner: HTMLElement | null = null;
+		let winnerHeight = -1;
+
+		trackedElements.forEach(({ settings, entry }, element) => {
+			if (settings.activeGroup !== group || !entry?.isIntersecting || entry.intersectionRatio < settings.threshold) return;
+			// Ties go to the element registered first, usually the one higher up.
+			if (entry.intersectionRect.height > winnerHeight) {
+				winner = element;
+				winnerHeight = entry.intersectionRect.height;
+			}
+		});
+
+		trackedElements.forEach((state, element) => {
+			if (state.settings.activeGroup !== group) return;
+			if (element !== winner) {
+				deactivate(element, state);
+			} else if (getStatus(element, state) === 'pending') {
+				applyClass(element);
+			}
+		});
+	};
+
+	const onIntersect = (entries: IntersectionObserverEntry[]) => {
+		if (pausedAt !== null) {
+			entries.forEach(entry => pausedEntries.set(entry.target, entry));
+			return;
+		}
+
+		const staggered: HTMLElement[] = [];
+		const activeGroups = new Set<string>();
+
 		entries.forEach((entry) => {
 			const target = entry.target as HTMLElement;
-			const element = Array.from(trackedElements.entries())
-				.find(([, state]) => state.ghost === target)?.[0] ?? target;
+			const element = ghostOwners.get(target);
+			const state = element && trackedElements.get(element);
+			if (!element || !state) return;
 
-			if (entry.isIntersecting) {
-				if (config.persistent) observer.unobserve(target);
+			state.entry = entry;
+			const direction = getDirection(entry);
+			// The initial callback reports every off-screen element as not intersecting; that is not an exit.
+			if (entry.isIntersecting || state.direction) {
+				state.direction = direction;
+				if (config.direction) applyDirection(element, entry.isIntersecting, direction);
+			}
 
-				const classes = (element.dataset.csClass || config.className).split(' ');
-				const isAlreadyActive = element.classList.contains(classes[0]);
+			if (config.stages) {
+				updateStages(entry, element);
+			} else if (state.settings.activeGroup) {
+				activeGroups.add(state.settings.activeGroup);
+			} else if (entry.isIntersecting) {
+				if (state.settings.persistent) unobserveTarget(state.observer!, target, onIntersect);
 
-				if (config.stagger > 0 && !isReducedMotion() && !queue.includes(element) && !isAlreadyActive) {
-					queue.push(element);
-					if (!isProcessingQueue) processQueue();
-				} else if (!isAlreadyActive) {
+				// Already active, queued or delayed.
+				if (getStatus(element, state) !== 'pending') return;
+
+				if (getTiming(element).stagger > 0) {
+					staggered.push(element);
+				} else {
 					applyClass(element);
 				}
-			} else if (!config.persistent) {
-				const queueIndex = queue.indexOf(element);
-				if (queueIndex > -1) queue.splice(queueIndex, 1);
+			} else if (!state.settings.persistent) {
+				deactivate(element, state);
+			}
+		});
 
-				const state = trackedElements.get(element);
-				if (state?.timeoutId) {
-					clearTimeout(state.timeoutId);
-					state.timeoutId = undefined;
-				}
+		activeGroups.forEach(updateActiveGroup);
+		if (staggered.length) enqueue(staggered);
+		scheduleDebugDraw();
+	};
 
-				const classes = (element.dataset.csClass || config.className).split(' ');
-				element.classList.remove(...classes);
+	const supportsObserver = typeof IntersectionObserver !== 'undefined';
+	const isPolling = !supportsObserver && config.fallback === 'scroll-polling';
+	const pollers = new Set<() => void>();
+	let pollFrame = 0;
+
+	/** Runs every polling observer in a single frame, however often scroll fires. */
+	const schedulePoll = () => {
+		if (!pollers.size || pollFrame) return;
+		pollFrame = requestAnimationFrame(() => {
+			pollFrame = 0;
+			pollers.forEach(poll => poll());
+		});
+	};
+
+	/** Computes an intersection entry from the cached layout, for when no observer reported one. */
+	const measureEntry = (state: ElementState, rootMargin: string): IntersectionObserverEntry => {
+		const bounds = getRootBounds();
+		const margins = parseMargins(rootMargin, bounds);
+		const zoneTop = -margins.top;
+		const zoneBottom = bounds.height + margins.bottom;
+
+		const top = state.top - getScrollOffset().y;
+		const visible = Math.min(top + state.height, zoneBottom) - Math.max(top, zoneTop);
+		const isIntersecting = visible >= 0;
+
+		return {
+			target: state.target,
+			isIntersecting,
+			intersectionRatio: !isIntersecting ? 0 : state.height > 0 ? Math.min(1, visible / state.height) : 1,
+			boundingClientRect: createRect(bounds.left, bounds.top + top, bounds.width, state.height),
+			intersectionRect: createRect(bounds.left, bounds.top + Math.max(top, zoneTop), bounds.width, Math.max(0, visible)),
+			rootBounds: createRect(bounds.left, bounds.top + zoneTop, bounds.width, zoneBottom - zoneTop),
+			time: performance.now(),
+		};
+	};
+
+	/**
+	 * Emulates an IntersectionObserver from the cached `top`/`height` of each target.
+	 * Like the real one, it reports every target once when observed and then only when a threshold is crossed.
+	 */
+	const createPollingObserver = (threshold: number | number[], rootMargin: string, onEntries: IntersectionHandler): SharedObserver => {
+		const thresholds = ([] as number[]).concat(threshold);
+		const handlers = new Map<Element, Set<IntersectionHandler>>();
+		const reported = new Map<Element, string>();
+
+		const poll = () => {
+			const entries: IntersectionObserverEntry[] = [];
+
+			handlers.forEach((_, target) => {
+				const state = trackedElements.get(ghostOwners.get(target)!);
+				if (!state) return;
+
+				const entry = measureEntry(state, rootMargin);
+				const crossed = thresholds.filter(value => entry.intersectionRatio >= value).length;
+
+				const current = `${entry.isIntersecting}|${crossed}`;
+				if (reported.get(target) === current) return;
+				reported.set(target, current);
+
+				entries.push(entry);
+			});
+
+			if (entries.length) onEntries(entries);
+		};
+
+		const observer: SharedObserver['observer'] = {
+			observe: (target: Element) => {
+				reported.delete(target);
+				schedulePoll();
+			},
+			unobserve: (target: Element) => {
+				reported.delete(target);
+			},
+			disconnect: () => {
+				reported.clear();
+				pollers.delete(poll);
+			},
+		};
+
+		pollers.add(poll);
+		return { observer, handlers, root: rootElement, key: `${threshold}|${rootMargin}`, users: 1 };
+	};
+
+	/** Pooled observers this instance holds a reference to, one per distinct threshold/rootMargin. */
+	const observers = new Map<string, SharedObserver>();
+
+	const getObserver = ({ threshold, rootMargin, activeGroup }: ElementSettings) => {
+		if (!supportsObserver && !isPolling) return null;
+
+		const thresholds = config.stages
+			? config.stages.map(stage => stage.threshold)
+			: activeGroup ? [...new Set([...ACTIVE_GROUP_THRESHOLDS, threshold])].sort((a, b) => a - b) : threshold;
+		const key = `${thresholds}|${rootMargin}`;
+
+		let observer = observers.get(key);
+		if (!observer) {
+			observer = isPolling
+				? createPollingObserver(thresholds, rootMargin, onIntersect)
+				: acquireObserver(rootElement, thresholds, rootMargin);
+			observers.set(key, observer);
+		}
+		return observer;
+	};
+
+	let dwellObserver: SharedObserver | null = null;
+
+	const getTimeInView = ({ visibleTime, since }: DwellState) => visibleTime + (since === undefined ? 0 : Date.now() - since);
+
+	const countImpression = (element: HTMLElement, dwell: DwellState) => {
+		dwell.timeoutId = undefined;
+		dwell.isSeen = true;
+		if (config.seenClasses.length) element.classList.add(...config.seenClasses);
+
+		const event: ClassyScrollImpression = { element, visibleTime: getTimeInView(dwell) };
+		options.onImpression?.(event);
+		if (config.events) {
+			element.dispatchEvent(new CustomEvent('cs:impression', { bubbles: true, detail: event }));
+		}
+	};
+
+	/** Runs the clock for an element in view, unless the tab is hidden. */
+	const startDwell = (element: HTMLElement, dwell: DwellState) => {
+		if (document.hidden || dwell.since !== undefined) return;
+		dwell.since = Date.now();
+		if (!dwell.isSeen) dwell.timeoutId = window.setTimeout(() => countImpression(element, dwell), config.dwell - dwell.stretch);
+	};
+
+	const stopDwell = (dwell: DwellState) => {
+		clearTimeout(dwell.timeoutId);
+		dwell.timeoutId = undefined;
+		if (dwell.since === undefined) return;
+
+		const elapsed = Date.now() - dwell.since;
+		dwell.visibleTime += elapsed;
+		dwell.stretch += elapsed;
+		dwell.since = undefined;
+	};
+
+	const onDwellIntersect = (entries: IntersectionObserverEntry[]) => {
+		entries.forEach((entry) => {
+			const element = ghostOwners.get(entry.target);
+			const dwell = element && trackedElements.get(element)?.dwell;
+			if (!element || !dwell) return;
+
+			const isInView = entry.isIntersecting && entry.intersectionRatio >= config.dwellThreshold;
+			if (isInView === dwell.isInView) return;
+			dwell.isInView = isInView;
+
+			if (isInView) {
+				startDwell(element, dwell);
+			} else {
+				stopDwell(dwell);
+				dwell.stretch = 0;
 			}
 		});
-	}, { threshold: config.threshold, rootMargin: config.rootMargin });
+	};
+
+	/** Impressions are measured by one observer per instance, against the root without `rootMargin`. */
+	const getDwellObserver = () => {
+		if (!dwellObserver && (supportsObserver || isPolling)) {
+			dwellObserver = isPolling
+				? createPollingObserver(config.dwellThreshold, '0px', onDwellIntersect)
+				: acquireObserver(rootElement, config.dwellThreshold, '0px', 'dwell');
+		}
+		return dwellObserver;
+	};
+
+	/** Repositions ghosts in place. All layout reads happen before any write to avoid thrashing. */
+	const syncGhosts = (elements: Iterable<HTMLElement>) => {
+		const layouts = Array.from(elements, element => [element, measureLayout(element)] as const);
+
+		layouts.forEach(([element, layout]) => {
+			const state = trackedElements.get(element)!;
+			if (state.ghost) placeGhost(state.ghost, layout);
+			state.top = layout.top;
+			state.left = layout.left;
+			state.width = layout.width;
+			state.height = layout.height;
+		});
+
+		scheduleProgress();
+		schedulePoll();
+		scheduleDebugDraw();
+	};
+
+	/**
+	 * Layout shifts (images, fonts, content above) resize the element or its offset parent,
+	 * so both are watched and only the affected ghosts are re-measured.
+	 */
+	const layoutParents = new Map<Element, Set<HTMLElement>>();
+	const observedSizes = new WeakMap<Element, string>();
+
+	const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver((entries) => {
+		const affected = new Set<HTMLElement>();
+
+		entries.forEach(({ target, contentRect }) => {
+			const size = `${contentRect.width}x${contentRect.height}`;
+			const previousSize = observedSizes.get(target);
+			observedSizes.set(target, size);
+			// The first report only echoes the size measured when the ghost was created.
+			if (previousSize === undefined || previousSize === size) return;
+
+			// An element resized by its own classes keeps its ghost at the start-state geometry.
+			const state = trackedElements.get(target as HTMLElement);
+			if (state && !carriesClasses(target as HTMLElement, state.settings)) affected.add(target as HTMLElement);
+			layoutParents.get(target)?.forEach(element => affected.add(element));
+		});
+
+		if (affected.size) syncGhosts(affected);
+	});
+
+	const watchLayout = (element: HTMLElement) => {
+		resizeObserver?.observe(element);
+
+		const parent = element.offsetParent;
+		if (!parent) return;
+		const siblings = layoutParents.get(parent);
+		if (siblings) {
+			siblings.add(element);
+		} else {
+			layoutParents.set(parent, new Set([element]));
+			resizeObserver?.observe(parent);
+		}
+	};
+
+	const unwatchLayout = (element: HTMLElement) => {
+		resizeObserver?.unobserve(element);
+
+		layoutParents.forEach((siblings, parent) => {
+			if (!siblings.delete(element) || siblings.size) return;
+			layoutParents.delete(parent);
+			resizeObserver?.unobserve(parent);
+		});
+	};
+
+	/** Reverse index from observed target (ghost or element) to its element, so intersection entries resolve in O(1). */
+	const ghostOwners = new Map<Element, HTMLElement>();
+
+	/** Whether an element already carries every class this instance would add, and would keep them for good. */
+	const getHydration = (element: HTMLElement, { settings }: Pick<ElementState, 'settings'>) => {
+		const stages = config.stages ?? [{ className: settings.classes.join(' '), persistent: settings.persistent }];
+		return {
+			isActive: stages.every(stage => element.classList.contains(stage.className.split(' ')[0])),
+			isPersistent: stages.every(stage => stage.persistent ?? settings.persistent),
+		};
+	};
+
+	/** `reveal-all` fallback: puts the element straight into its final state. */
+	const revealImmediately = (element: HTMLElement, state: ElementState) => {
+		const { settings } = state;
+		const classes = config.stages ? config.stages.flatMap(stage => stage.className.split(' ')) : settings.classes;
+		if (element.classList.contains(classes[0])) return;
+
+		if (!config.stages) {
+			state.removedClasses = settings.removeClasses.filter(name => element.classList.contains(name));
+			element.classList.remove(...state.removedClasses);
+		}
+		element.classList.add(...classes);
+		syncTargets(element, state);
+		scheduleDebugDraw();
+	};
+
+	const getStatus = (element: HTMLElement, state: ElementState): ClassyScrollStatus => {
+		if (queue.includes(element)) return 'queued';
+		if (state.timeoutId !== undefined || pausedDelays.has(element)) return 'delayed';
+		const classes = config.stages ? config.stages[0].className.split(' ') : state.settings.classes;
+		return element.classList.contains(classes[0]) ? 'active' : 'pending';
+	};
+
+	/** Reveals or observes a registered element, depending on the fallback, reduced motion and hydration. */
+	const startTracking = (element: HTMLElement, state: ElementState) => {
+		const hydration = config.hydrate ? getHydration(element, state) : null;
+
+		if (isRevealingAll() || (!state.observer && config.fallback === 'reveal-all')) {
+			revealImmediately(element, state);
+		} else if (state.observer && (!hydration?.isActive || !hydration.isPersistent)) {
+			observeTarget(state.observer, state.target, onIntersect);
+		}
+	};
+
+	/** Why the CSS engine can't drive an element with these settings, or `null` when it can. */
+	const getCssBlocker = (settings: ElementSettings) => {
+		if (!supportsViewTimeline()) return 'this browser lacks `animation-timeline: view()`';
+
+		const hasHooks = !!(options.onEnter || options.onLeave || options.onEnterBack || options.onLeaveBack || options.callback);
+		const blocker = ([
+			['stages', !!config.stages],
+			['root', !!rootElement],
+			['progress', config.progress],
+			['direction', config.direction],
+			['debug', config.debug],
+			['hooks', hasHooks],
+			['persistent', settings.persistent],
+			['delay', settings.delay > 0],
+			['stagger', settings.stagger > 0],
+			['removeClass', settings.removeClasses.length > 0],
+			['dwell', config.dwell > 0],
+			['data-cs-target', !!settings.target],
+			['activeGroup', !!settings.activeGroup],
+			['a horizontal rootMargin', !toViewInset(settings.rootMargin)],
+			['reducedMotion', prefersReducedMotion && config.reducedMotion !== 'respect-delays'],
+		] as const).find(([, isSet]) => isSet);
+
+		return blocker ? `${blocker[0]} can't be expressed as a scroll-driven animation` : null;
+	};
+
+	/** Hands an element to a `view()` timeline spanning the threshold on entry to the threshold on exit. */
+	const driveWithCss = (element: HTMLElement, settings: ElementSettings) => {
+		const percent = Math.round(settings.threshold * 10000) / 100;
+		cssElements.set(element, {
+			timeline: element.style.getPropertyValue('animation-timeline'),
+			range: element.style.getPropertyValue('animation-range'),
+		});
+
+		element.style.setProperty('animation-timeline', `view(block ${toViewInset(settings.rootMargin)})`);
+		element.style.setProperty('animation-range', `entry ${percent}% exit ${100 - percent}%`);
+		element.classList.add(...settings.classes);
+		element.dataset.csEngine = 'css';
+		if (prefersReducedMotion) element.classList.add(REDUCED_MOTION_CLASS);
+	};
+
+	/** Unties an element from its timeline. It keeps its classes, so styles keyed to `data-cs-engine` must carry the animation. */
+
+	const stopCss = (element: HTMLElement) => {
+		const { timeline, range } = cssElements.get(element)!;
+		element.style.setProperty('animation-timeline', timeline);
+		element.style.setProperty('animation-range', range);
+		element.classList.remove(REDUCED_MOTION_CLASS);
+		delete element.dataset.csEngine;
+		cssElements.delete(element);
+	};
 
 	const register = (element: HTMLElement) => {
-		if (trackedElements.has(element)) return;
-		const state = createGhost(element);
+		if (trackedElements.has(element) || cssElements.has(element)) return;
+		const settings = resolveSettings(element);
+
+		if (config.engine !== 'observer') {
+			const blocker = getCssBlocker(settings);
+			if (!blocker) {
+				driveWithCss(element, settings);
+				return;
+			}
+			if (config.engine === 'css' && !hasWarnedEngine) {
+				hasWarnedEngine = true;
+				console.warn(`[classy-scroll] Falling back to engine: 'observer' because ${blocker}.`, element);
+			}
+		}
+
+		const observer = getObserver(settings);
+		// An element that is already active, rendered by the server or re-attached by a binding,
+		// is assumed to have had its missing "from" classes swapped out.
+		const removedClasses = getHydration(element, { settings }).isActive
+			? settings.removeClasses.filter(name => !element.classList.contains(name))
+			: undefined;
+		const state: ElementState = { ...createTracking(element, settings, removedClasses), settings, observer, removedClasses };
 		trackedElements.set(element, state);
-		observer.observe(state.ghost);
+		ghostOwners.set(state.target, element);
+
+		if (prefersReducedMotion) element.classList.add(REDUCED_MOTION_CLASS);
+
+		startTracking(element, state);
+
+		const dwellTarget = config.dwell > 0 ? getDwellObserver() : null;
+		if (dwellTarget) {
+			state.dwell = { isInView: false, visibleTime: 0, stretch: 0, isSeen: false };
+			observeTarget(dwellTarget, state.target, onDwellIntersect);
+		}
+
+		watchLayout(element);
+		scheduleProgress();
+		scheduleDebugDraw();
+		if (isLoadingWithHash) revealAtHash([element]);
 	};
 
-	const resolveTargets = () => {
-		if (typeof targetInput === 'string') {
-			document.querySelectorAll(targetInput).forEach(el => register(el as HTMLElement));
-		} else if (targetInput instanceof Element) {
-			register(targetInput as HTMLElement);
-		} else if (targetInput && (targetInput as ArrayLike<Element>).length) {
-			Array.from(targetInput as ArrayLike<Element>).forEach(el => register(el as HTMLElement));
+	const unregister = (element: HTMLElement) => {
+		if (cssElements.has(element)) stopCss(element);
+		const state = trackedElements.get(element);
+		if (!state) return;
+
+		if (state.observer) unobserveTarget(state.observer, state.target, onIntersect);
+		if (state.dwell) {
+			stopDwell(state.dwell);
+			unobserveTarget(dwellObserver!, state.target, onDwellIntersect);
 		}
+		unwatchLayout(element);
+		ghostOwners.delete(state.target);
+		pausedEntries.delete(state.target);
+		state.ghost?.remove();
+		element.classList.remove(REDUCED_MOTION_CLASS);
+		cancelPending(element, state);
+
+		trackedElements.delete(element);
+		scheduleDebugDraw();
 	};
 
-	let resizeTimer: number;
-	const onResize = () => {
-		clearTimeout(resizeTimer);
-		resizeTimer = window.setTimeout(() => {
-			trackedElements.forEach((state, element) => {
-				observer.unobserve(state.ghost);
-				state.ghost.remove();
-				const newState = createGhost(element);
-				trackedElements.set(element, { ...state, ...newState });
-				observer.observe(newState.ghost);
-			});
-			if (config.debug) resizeCanvas();
-		}, 150);
+	/** Puts an element in its final state right away and stops observing it if it would never toggle back. */
+	const revealNow = (element: HTMLElement, state: ElementState) => {
+		cancelPending(element, state);
+		revealImmediately(element, state);
+
+		const { isActive, isPersistent } = getHydration(element, state);
+		if (state.observer && isActive && isPersistent) unobserveTarget(state.observer, state.target, onIntersect);
+	};
+
+	/** Reveals an element for a hash jump, firing the enter hooks and events without delay or stagger. */
+	const revealAndEmit = (element: HTMLElement, state: ElementState) => {
+		const stageClasses = config.stages?.map(stage => stage.className.split(' ')) ?? [state.settings.classes];
+		const pending = stageClasses.filter(classes => !element.classList.contains(classes[0]));
+		revealNow(element, state);
+
+		const entered = pending.filter(classes => element.classList.contains(classes[0]));
+		if (!entered.length) return;
+		state.entry = measureEntry(state, state.settings.rootMargin);
+		entered.forEach(classes => emit(true, element, classes));
+	};
+
+	/** Returns an element to its start state and tracks it from scratch. */
+	const resetElement = (element: HTMLElement, state: ElementState) => {
+		cancelPending(element, state);
+		if (state.observer) unobserveTarget(state.observer, state.target, onIntersect);
+		pausedEntries.delete(state.target);
+
+		element.classList.remove(...getManagedClasses(state.settings));
+		element.classList.add(...(state.removedClasses ?? []));
+		delete element.dataset.csDirection;
+		state.removedClasses = undefined;
+		state.direction = undefined;
+		syncTargets(element, state);
+
+		startTracking(element, state);
+		scheduleDebugDraw();
+	};
+
+	const toElements = (input: ClassyTargets): HTMLElement[] => {
+		if (typeof input === 'string') {
+			return Array.from(document.querySelectorAll<HTMLElement>(input));
+		} else if (input instanceof Element) {
+			return [input as HTMLElement];
+		} else if (input && (input as ArrayLike<Element>).length) {
+			return Array.from(input as ArrayLike<Element>) as HTMLElement[];
+		}
+		return [];
+	};
+
+	/** Registers an element matched by the target selector, unless it was taken out with `remove()`. */
+	const registerMatch = (element: HTMLElement) => {
+		if (!removedElements.has(element)) register(element);
+	};
+
+	const resolveTargets = () => {
+		toElements(targetInput).forEach(registerMatch);
+	};
+
+	const pruneDisconnected = () => {
+		[...trackedElements.keys(), ...cssElements.keys()].forEach((element) => {
+			if (!element.isConnected) unregister(element);
+		});
+	};
+
+	const unsubscribeResize = subscribeResize(() => syncGhosts(trackedElements.keys()));
+
+	const scrollTarget: HTMLElement | Window = rootElement ?? window;
+	let progressFrame = 0;
+
+	const updateProgress = () => {
+		progressFrame = 0;
+		const bounds = getRootBounds();
+		const scrollY = getScrollOffset().y;
+
+		trackedElements.forEach((state, element) => {
+			const margins = parseMargins(state.settings.rootMargin, bounds);
+			const zoneBottom = bounds.height + margins.bottom;
+			const zoneHeight = zoneBottom + margins.top;
+			const distance = zoneHeight + state.height;
+			const travelled = zoneBottom - (state.top - scrollY);
+			const progress = distance > 0 ? Math.min(1, Math.max(0, travelled / distance)) : 0;
+			const rounded = Math.round(progress * 10000) / 10000;
+
+			if (state.progress === rounded) return;
+			state.progress = rounded;
+			element.style.setProperty('--cs-progress', String(rounded));
+		});
+	};
+
+	/** Batches all progress writes into a single frame, however often scroll fires. */
+	const scheduleProgress = () => {
+		if (config.progress && !progressFrame) progressFrame = requestAnimationFrame(updateProgress);
 	};
-	window.addEventListener('resize', onResize, { passive: true });
 
-	let canvas: HTMLCanvasElement | null = null;
-	let ctx: CanvasRenderingContext2D | null = null;
-	let drawFrame: number;
+	if (config.progress) scrollTarget.addEventListener('scroll', scheduleProgress, { passive: true });
+	if (isPolling) scrollTarget.addEventListener('scroll', schedulePoll, { passive: true });
 
-	const parseMargins = (margin: string) => {
-		const parts = margin.split(' ').map(p => parseFloat(p) || 0);
-		const viewportHeight = window.innerHeight;
-		const isPercent = (value: string) => value.includes('%');
-		const raw = margin.split(' ');
+	/**
+	 * Follows the OS setting live: everything still waiting is re-timed under the new policy,
+	 * and CSS-driven elements the policy no longer lets scroll are handed to the observer.
+	 */
+	const onMotionChange = (event: MediaQueryListEvent) => {
+		prefersReducedMotion = event.matches;
 
-		const calc = (value: number, marginString: string) => isPercent(marginString) ? (value / 100) * viewportHeight : value;
+		cssElements.forEach((_, element) => {
+			element.classList.toggle(REDUCED_MOTION_CLASS, prefersReducedMotion);
+			if (!getCssBlocker(resolveSettings(element))) return;
+			unregister(element);
+			register(element);
+		});
+
+		trackedElements.forEach((state, element) => {
+			element.classList.toggle(REDUCED_MOTION_CLASS, prefersReducedMotion);
+
+			if (config.reducedMotion === 'reveal-all-immediately') {
+				if (!state.observer) return;
+				if (prefersReducedMotion) {
+					cancelPending(element, state);
+					unobserveTarget(state.observer, state.target, onIntersect);
+					revealImmediately(element, state);
+				} else {
+					// Revealed elements that would never toggle back stay unobserved.
+					const { isActive, isPersistent } = getHydration(element, state);
+					if (!isActive || !isPersistent) observeTarget(state.observer, state.target, onIntersect);
+				}
+			} else if (state.timeoutId && config.reducedMotion !== 'respect-delays') {
+				clearTimeout(state.timeoutId);
+				state.timeoutId = undefined;
+				applyClass(element);
+			}
+		});
 
-		if (parts.length === 1) return { top: calc(parts[0], raw[0]), bottom: calc(parts[0], raw[0]) };
-		if (parts.length === 2) return { top: calc(parts[0], raw[0]), bottom: calc(parts[0], raw[0]) };
-		if (parts.length === 3) return { top: calc(parts[0], raw[0]), bottom: calc(parts[2], raw[2]) };
+		// The queue is scheduled again from now; the spacing after already revealed elements is dropped.
+		if (queue.length && config.reducedMotion !== 'respect-delays' && pausedAt === null) {
+			clearTimeout(queueTimer);
+			staggerTails.clear();
+			enqueue(queue.splice(0), true);
+		}
+	};
 
-		return { top: calc(parts[0], raw[0]), bottom: calc(parts[2], raw[2]) };
+	// Safari < 14 only implements the deprecated `addListener`.
+	if (motionQuery?.addEventListener) {
+		motionQuery.addEventListener('change', onMotionChange);
+	} else {
+		motionQuery?.addListener?.(onMotionChange);
+	}
+
+	/** Elements that were not revealed yet when printing started, restored on `afterprint` in `'restore'` mode. */
+	let printedElements: HTMLElement[] = [];
+
+	const onBeforePrint = () => {
+		printedElements = [];
+		trackedElements.forEach((state, element) => {
+			if (getStatus(element, state) !== 'active') printedElements.push(element);
+			revealNow(element, state);
+		});
+	};
+
+	const onAfterPrint = () => {
+		if (config.print === 'restore') {
+			printedElements.forEach((element) => {
+				const state = trackedElements.get(element);
+				if (state) resetElement(element, state);
+			});
+		}
+		printedElements = [];
+	};
+
+	/** Reveals the elements at and around the `location.hash` anchor. */
+	const revealAtHash = (elements: HTMLElement[]) => {
+		let id = '';
+		try {
+			id = decodeURIComponent(location.hash.slice(1));
+		} catch {
+			return;
+		}
+		const anchor = id ? document.getElementById(id) : null;
+		if (!anchor) return;
+
+		const { top } = measureLayout(anchor);
+		const { height } = getRootBounds();
+		elements.forEach((element) => {
+			const state = trackedElements.get(element);
+			if (!state) return;
+			const isRelated = element.contains(anchor) || anchor.contains(element);
+			const isAround = state.top + state.height >= top && state.top <= top + height;
+			if (isRelated || isAround) revealAndEmit(element, state);
+		});
 	};
 
-	const resizeCanvas = () => {
-		if (!canvas || !ctx) return;
-		const dpr = window.devicePixelRatio || 1;
-		canvas.width = window.innerWidth * dpr;
-		canvas.height = window.innerHeight * dpr;
-		ctx.scale(dpr, dpr);
+	const onHashChange = () => revealAtHash([...trackedElements.keys()]);
+
+	/** While the page is still loading, elements registered after the initial hash reveal are checked as well. */
+	let isLoadingWithHash = false;
+	const onLoad = () => {
+		isLoadingWithHash = false;
 	};
 
-	const drawDebugOverlay = () => {
-		if (!ctx || !canvas) return;
+	if (config.print) {
+		window.addEventListener('beforeprint', onBeforePrint);
+		window.addEventListener('afterprint', onAfterPrint);
+	}
+	if (config.hash) window.addEventListener('hashchange', onHashChange);
 
-		const viewportWidth = window.innerWidth;
-		const viewportHeight = window.innerHeight;
+	const onVisibilityChange = () => {
+		trackedElements.forEach(({ dwell }, element) => {
+			if (!dwell?.isInView) return;
+			if (document.hidden) {
+				stopDwell(dwell);
+			} else {
+				startDwell(element, dwell);
+			}
+		});
+	};
 
-		ctx.clearRect(0, 0, viewportWidth, viewportHeight);
+	if (config.dwell > 0) document.addEventListener('visibilitychange', onVisibilityChange);
 
-		const scrollY = window.scrollY;
-		const margins = parseMargins(config.rootMargin);
+	const drawDebugLayer = (ctx: CanvasRenderingContext2D, color: string) => {
+		const bounds = getRootBounds();
+		const viewportWidth = bounds.width;
+		const viewportHeight = bounds.height;
+		const rightEdge = bounds.left + viewportWidth;
+		const scroll = getScrollOffset();
+		const scrollX = scroll.x - bounds.left;
+		const scrollY = scroll.y - bounds.top;
+		const margins = parseMargins(config.rootMargin, bounds);
 
-		const drawLabel = (text: string, yPos: number, color: string, position: 'above' | 'below' = 'above') => {
-			ctx!.font = 'bold 10px system-ui, -apple-system, sans-serif';
-			ctx!.textAlign = 'right';
-			ctx!.textBaseline = 'middle';
+		const drawLabel = (text: string, yPos: number, labelColor: string, position: 'above' | 'below' = 'above') => {
+			ctx.font = 'bold 10px system-ui, -apple-system, sans-serif';
+			ctx.textAlign = 'right';
+			ctx.textBaseline = 'middle';
 
 			const paddingX = 12;
-			const textWidth = ctx!.measureText(text).width;
+			const textWidth = ctx.measureText(text).width;
 			const boxWidth = textWidth + paddingX;
 			const boxHeight = 18;
 
-			const x = viewportWidth;
+			const x = rightEdge;
 			const y = position === 'above' ? yPos - boxHeight : yPos;
 
-			ctx!.fillStyle = color;
-			ctx!.fillRect(x - boxWidth, y, boxWidth, boxHeight);
+			ctx.fillStyle = labelColor;
+			ctx.fillRect(x - boxWidth, y, boxWidth, boxHeight);
 
-			ctx!.fillStyle = '#ffffff';
-			ctx!.fillText(text, x - (paddingX / 2), y + (boxHeight / 2));
+			ctx.fillStyle = '#ffffff';
+			ctx.fillText(text, x - (paddingX / 2), y + (boxHeight / 2));
 		};
 
 		ctx.lineWidth = 2;
 
 		ctx.setLineDash([5, 5]);
 
-		const topY = -margins.top;
+		const leftX = bounds.left - margins.left;
+		const rightX = rightEdge + margins.right;
+
+		const topY = bounds.top - margins.top;
 		ctx.strokeStyle = 'rgba(239, 68, 68, 0.9)';
 		ctx.beginPath();
-		ctx.moveTo(0, topY);
-		ctx.lineTo(viewportWidth, topY);
+		ctx.moveTo(leftX, topY);
+		ctx.lineTo(rightX, topY);
 		ctx.stroke();
 		drawLabel(`[${debugName}] Exit: ${config.rootMargin}`, topY, 'rgba(239, 68, 68, 0.9)', 'below');
 
-		const bottomY = viewportHeight + margins.bottom;
+		const bottomY = bounds.top + viewportHeight + margins.bottom;
 		ctx.strokeStyle = 'rgba(34, 197, 94, 0.9)';
 		ctx.beginPath();
-		ctx.moveTo(0, bottomY);
-		ctx.lineTo(viewportWidth, bottomY);
+		ctx.moveTo(leftX, bottomY);
+		ctx.lineTo(rightX, bottomY);
 		ctx.stroke();
 		drawLabel(`[${debugName}] Entry: ${config.rootMargin}`, bottomY, 'rgba(34, 197, 94, 0.9)', 'above');
 
+		if (margins.left || margins.right) {
+			ctx.strokeStyle = 'rgba(148, 163, 184, 0.9)';
+			[leftX, rightX].forEach((x) => {
+				ctx.beginPath();
+				ctx.moveTo(x, topY);
+				ctx.lineTo(x, bottomY);
+				ctx.stroke();
+			});
+		}
+
 		ctx.setLineDash([]);
-		trackedElements.forEach((state) => {
-			const yEnter = (state.top + (state.height * config.threshold)) - scrollY;
-			const yExit = (state.top + state.height - (state.height * config.threshold)) - scrollY;
-
-			if (yEnter > -50 && yEnter < viewportHeight + 50) {
-				ctx!.fillStyle = '#2563eb';
-				ctx!.fillRect(viewportWidth - 120, yEnter, 120, 2);
-				drawLabel(`[${debugName}] Enter: ${Math.round(config.threshold * 100)}%`, yEnter, '#2563eb', 'above');
+		trackedElements.forEach((state, element) => {
+			const y = state.top - scrollY;
+			if (y + state.height > bounds.top - 50 && y < bounds.top + viewportHeight + 50) {
+				ctx.strokeStyle = DEBUG_STATUS_COLORS[getStatus(element, state)];
+				ctx.strokeRect(state.left - scrollX, y, state.width, state.height);
 			}
 
-			if (!config.persistent && yExit > -50 && yExit < viewportHeight + 50) {
-				ctx!.fillStyle = '#2563eb';
-				ctx!.fillRect(viewportWidth - 120, yExit, 120, 2);
-				drawLabel(`[${debugName}] Exit: ${Math.round(config.threshold * 100)}%`, yExit, '#2563eb', 'above');
-			}
+			const { threshold, persistent } = state.settings;
+			const debugStages = config.stages
+				? config.stages.map(stage => ({ ...stage, persistent: stage.persistent ?? persistent, label: ` (${stage.className})` }))
+				: [{ threshold, persistent, label: '' }];
+
+			debugStages.forEach((stage) => {
+				const percent = Math.round(stage.threshold * 100);
+				const yEnter = (state.top + (state.height * stage.threshold)) - scrollY;
+				const yExit = (state.top + state.height - (state.height * stage.threshold)) - scrollY;
+
+				if (yEnter > bounds.top - 50 && yEnter < bounds.top + viewportHeight + 50) {
+					ctx.fillStyle = color;
+					ctx.fillRect(rightEdge - 120, yEnter, 120, 2);
+					drawLabel(`[${debugName}] Enter: ${percent}%${stage.label}`, yEnter, color, 'above');
+				}
+
+				if (!stage.persistent && yExit > bounds.top - 50 && yExit < bounds.top + viewportHeight + 50) {
+					ctx.fillStyle = color;
+					ctx.fillRect(rightEdge - 120, yExit, 120, 2);
+					drawLabel(`[${debugName}] Exit: ${percent}%${stage.label}`, yExit, color, 'above');
+				}
+			});
 		});
+	};
 
-		drawFrame = requestAnimationFrame(drawDebugOverlay);
+	const describeDebugLayer = () => {
+		const counts: Record<ClassyScrollStatus, number> = { pending: 0, queued: 0, delayed: 0, active: 0 };
+		trackedElements.forEach((state, element) => counts[getStatus(element, state)]++);
+		return `${debugName}: ${counts.pending} pending · ${counts.queued} queued · ${counts.delayed} delayed · ${counts.active} active`;
 	};
-	if (config.debug) {
-		canvas = document.createElement('canvas');
-		Object.assign(canvas.style, {
-			position: 'fixed', top: '0', left: '0',
-			width: '100vw', height: '100vh',
-			pointerEvents: 'none', zIndex: '2147483646',
+
+	const unsubscribeDebug = config.debug ? subscribeDebug({ draw: drawDebugLayer, describe: describeDebugLayer }) : noop;
+
+	let mutationObserver: MutationObserver | null = null;
+
+	const onMutation = (records: MutationRecord[]) => {
+		let hasRemovals = false;
+
+		records.forEach((record) => {
+			if (record.removedNodes.length) hasRemovals = true;
+			if (typeof targetInput !== 'string') return;
+
+			record.addedNodes.forEach((node) => {
+				if (!(node instanceof HTMLElement) || !node.isConnected || node.dataset.csGhost) return;
+				if (node.matches(targetInput)) registerMatch(node);
+				node.querySelectorAll<HTMLElement>(targetInput).forEach(registerMatch);
+			});
 		});
-		document.body.appendChild(canvas);
-		ctx = canvas.getContext('2d');
-		if (ctx) ctx.font = '10px monospace';
-		resizeCanvas();
-		drawDebugOverlay();
+
+		if (hasRemovals) pruneDisconnected();
+	};
+
+	if (config.watch) {
+		const scope = config.watch === true
+			? document.body
+			: typeof config.watch === 'string' ? document.querySelector(config.watch) : config.watch;
+
+		if (scope) {
+			mutationObserver = new MutationObserver(onMutation);
+			mutationObserver.observe(scope, { childList: true, subtree: true });
+		}
 	}
 
 	resolveTargets();
+	if (config.hash) {
+		// Deferred so hooks never fire before the controller has been returned.
+		queueMicrotask(onHashChange);
+		if (document.readyState !== 'complete') {
+			isLoadingWithHash = true;
+			window.addEventListener('load', onLoad, { once: true });
+		}
+	}
 
 	return {
-		destroy: () => {
-			window.removeEventListener('resize', onResize);
-			clearTimeout(resizeTimer);
-			observer.disconnect();
+		add: (targets) => {
+			toElements(targets).forEach((element) => {
+				removedElements.delete(element);
+				register(element);
+			});
+		},
+		remove: (targets) => {
+			toElements(targets).forEach((element) => {
+				removedElements.add(element);
+				unregister(element);
+			});
+		},
+		refresh: () => {
+			pruneDisconnected();
+			syncGhosts(trackedElements.keys());
+			// Elements and lists were resolved once; re-adding them would undo `remove()`.
+			if (typeof targetInput === 'string') resolveTargets();
+		},
+		pause: () => {
+			if (pausedAt !== null) return;
+			pausedAt = Date.now();
+			clearTimeout(queueTimer);
+
+			trackedElements.forEach((state, element) => {
+				if (!state.timeoutId) return;
+				clearTimeout(state.timeoutId);
+				state.timeoutId = undefined;
+				pausedDelays.add(element);
+			});
+		},
+		resume: () => {
+			if (pausedAt === null) return;
+			const pausedFor = Date.now() - pausedAt;
+			pausedAt = null;
+
+			queue.forEach((element) => {
+				const state = trackedElements.get(element)!;
+				state.queuedAt! += pausedFor;
+				state.revealAt! += pausedFor;
+			});
+			staggerTails.forEach((tail, key) => staggerTails.set(key, tail + pausedFor));
+			pausedDelays.forEach(element => applyClass(element));
+			pausedDelays.clear();
+			processQueue();
 
-			if (config.debug) {
-				cancelAnimationFrame(drawFrame);
-				canvas?.remove();
+			const entries = [...pausedEntries.values()];
+			pausedEntries.clear();
+			if (entries.length) onIntersect(entries);
+		},
+		reset: (targets) => {
+			const elements = targets === undefined ? [...trackedElements.keys()] : toElements(targets);
+
+			elements.forEach((element) => {
+				const state = trackedElements.get(element);
+				if (state) resetElement(element, state);
+			});
+		},
+		revealAll: () => {
+			trackedElements.forEach((state, element) => revealNow(element, state));
+		},
+		getState: () => new Map([
+			...Array.from(trackedElements, ([element, state]): [HTMLElement, ClassyScrollStatus] => [element, getStatus(element, state)]),
+			...Array.from(cssElements.keys(), (element): [HTMLElement, ClassyScrollStatus] => [element, 'active']),
+		]),
+		getVisibleTime: () => new Map(Array.from(trackedElements, ([element, { dwell }]) => [element, dwell ? getTimeInView(dwell) : 0])),
+		destroy: () => {
+			unsubscribeResize();
+			scrollTarget.removeEventListener('scroll', scheduleProgress);
+			cancelAnimationFrame(progressFrame);
+			scrollTarget.removeEventListener('scroll', schedulePoll);
+			cancelAnimationFrame(pollFrame);
+			if (motionQuery?.removeEventListener) {
+				motionQuery.removeEventListener('change', onMotionChange);
+			} else {
+				motionQuery?.removeListener?.(onMotionChange);
 			}
+			window.removeEventListener('beforeprint', onBeforePrint);
+			window.removeEventListener('afterprint', onAfterPrint);
+			window.removeEventListener('hashchange', onHashChange);
+			window.removeEventListener('load', onLoad);
+			document.removeEventListener('visibilitychange', onVisibilityChange);
+			mutationObserver?.disconnect();
+			resizeObserver?.disconnect();
+			layoutParents.clear();
+			ghostOwners.clear();
 
-			trackedElements.forEach((state) => {
-				state.ghost.remove();
+			unsubscribeDebug();
+
+			trackedElements.forEach((state, element) => {
+				if (state.observer) unobserveTarget(state.observer, state.target, onIntersect);
+				if (state.dwell) {
+					stopDwell(state.dwell);
+					unobserveTarget(dwellObserver!, state.target, onDwellIntersect);
+				}
+				state.ghost?.remove();
+				element.classList.remove(REDUCED_MOTION_CLASS);
 				if (state.timeoutId) clearTimeout(state.timeoutId);
 			});
+			if (dwellObserver) releaseObserver(dwellObserver);
+			dwellObserver = null;
+
+			cssElements.forEach((_, element) => stopCss(element));
 
+			observers.forEach(releaseObserver);
+			observers.clear();
 			trackedElements.clear();
 			queue.length = 0;
+			clearTimeout(queueTimer);
+			pausedEntries.clear();
+			pausedDelays.clear();
+
+			releaseRootPosition();
+			releaseRootPosition = noop;
 		},
 	};
 }
+
+/**
+ * Initializes every `[data-cs]` element from its `data-cs-*` attributes, without writing JavaScript per page.
+ * Elements with differing thresholds or root margins are routed to separate internal observers,
+ * so the page ends up with as few observers as possible.
+ * * @param options - Defaults for every option not set through attributes.
+ * @returns The controller of the shared instance.
+ */
+export function autoInit(options: ClassyScrollOptions = {}): ClassyScrollController {
+	return classyScroll('[data-cs]', options);
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { createElement, useRef, act, StrictMode, type RefCallback } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { useClassyScroll } from './react';
+import { triggerIntersect } from '../test/setup';
+
+const getGhosts = () => document.querySelectorAll<HTMLElement>('[data-cs-ghost="true"]');
+
+describe('useClassyScroll', () => {
+	let container: HTMLElement;
+	let root: Root;
+
+	beforeAll(() => {
+		Reflect.set(globalThis, 'IS_REACT_ACT_ENVIRONMENT', true);
+	});
+
+	const render = (element: ReturnType<typeof createElement>) => {
+		container = document.createElement('div');
+		document.body.appendChild(container);
+		root = createRoot(container);
+		act(() => root.render(element));
+	};
+
+	afterEach(() => {
+		act(() => root.unmount());
+		container.remove();
+	});
+
+	it('should track the element of a ref while mounted', () => {
+		const Card = () => {
+			const ref = useRef<HTMLDivElement>(null);
+			useClassyScroll(ref, { class: 'shown' });
+			return createElement('div', { ref, id: 'card' });
+		};
+		render(createElement(Card));
+
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(1);
+		triggerIntersect(ghosts[0], true);
+		expect(container.querySelector('#card')!.classList.contains('shown')).toBe(true);
+
+		act(() => root.render(createElement('p')));
+		expect(getGhosts()).toHaveLength(0);
+	});
+
+	it('should share one instance between list items and only touch changed items', async () => {
+		const List = ({ items }: { items: string[] }) => {
+			const classy = useClassyScroll({ stagger: 50 });
+			return createElement('ul', null, items.map(item => createElement('li', { key: item, ref: classy, id: item })));
+		};
+		render(createElement(List, { items: ['a', 'b'] }));
+		const [ghostA, ghostB] = getGhosts();
+
+		act(() => root.render(createElement(List, { items: ['a', 'b', 'c'] })));
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(3);
+		expect(ghosts[0]).toBe(ghostA);
+		expect(ghosts[1]).toBe(ghostB);
+
+		// Removed items are only reported as `null`, and dropped once they have left the DOM.
+		await act(async () => root.render(createElement(List, { items: ['b', 'c'] })));
+		expect(getGhosts()).toHaveLength(2);
+		expect(ghostA.isConnected).toBe(false);
+
+		await act(async () => root.render(createElement('p')));
+		expect(getGhosts()).toHaveLength(0);
+	});
+
+	it('should keep tracking list items under StrictMode without returning a ref cleanup', async () => {
+		let classy: RefCallback<HTMLElement> = () => {};
+		const List = () => {
+			classy = useClassyScroll({ class: 'shown' });
+			return createElement('ul', null, ['a', 'b', 'c'].map(item => createElement('li', { key: item, ref: classy, id: item })));
+		};
+		await act(async () => render(createElement(StrictMode, null, createElement(List))));
+
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(3);
+		ghosts.forEach(ghost => triggerIntersect(ghost, true));
+		expect(container.querySelectorAll('li.shown')).toHaveLength(3);
+		expect(classy(container.querySelector('li'))).toBeUndefined();
+	});
+});
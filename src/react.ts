@@ -0,0 +1,53 @@
+/**
+ * React binding: `useClassyScroll()` registers elements into a shared instance on mount
+ * and removes them on unmount, so list changes only touch the items that changed.
+ */
+import { useCallback, useEffect, useRef, type RefCallback, type RefObject } from 'react';
+import type { ClassyScrollOptions } from './index';
+import { attach } from './shared';
+
+/**
+ * Tracks the element of a ref while the component is mounted.
+ * Options are read once on mount.
+ */
+export function useClassyScroll(ref: RefObject<HTMLElement | null>, options?: ClassyScrollOptions): void;
+/**
+ * Returns a stable ref callback that tracks every element it is attached to, e.g. the items of a list.
+ * Options are read when an element mounts.
+ */
+export function useClassyScroll(options?: ClassyScrollOptions): RefCallback<HTMLElement>;
+export function useClassyScroll(
+	refOrOptions?: RefObject<HTMLElement | null> | ClassyScrollOptions,
+	maybeOptions?: ClassyScrollOptions,
+): RefCallback<HTMLElement> | void {
+	const isRef = !!refOrOptions && 'current' in refOrOptions;
+	const ref = isRef ? refOrOptions as RefObject<HTMLElement | null> : null;
+	const optionsRef = useRef(isRef ? maybeOptions : refOrOptions as ClassyScrollOptions | undefined);
+	optionsRef.current = isRef ? maybeOptions : refOrOptions as ClassyScrollOptions | undefined;
+	const detachers = useRef(new Map<HTMLElement, () => void>());
+
+	// Only the ref's element: StrictMode re-runs effects but not ref callbacks, so those elements must survive this cleanup.
+	useEffect(() => {
+		const element = ref?.current;
+		return element ? attach(element, optionsRef.current) : undefined;
+	}, [ref]);
+
+	// Returning a cleanup would only work from React 19 on, and React 18 warns about it.
+	const refCallback = useCallback<RefCallback<HTMLElement>>((element) => {
+		const elements = detachers.current;
+
+		if (element) {
+			if (!elements.has(element)) elements.set(element, attach(element, optionsRef.current));
+			return;
+		}
+
+		// React only reports that *some* element unmounted, so drop those that have left the DOM.
+		queueMicrotask(() => elements.forEach((detach, tracked) => {
+			if (tracked.isConnected) return;
+			detach();
+			elements.delete(tracked);
+		}));
+	}, []);
+
+	if (!isRef) return refCallback;
+}
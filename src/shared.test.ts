@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { getKey } from './shared';
+
+describe('getKey', () => {
+	it('should key options by value', () => {
+		expect(getKey({ class: 'shown', threshold: 0.5 })).toBe(getKey({ class: 'shown', threshold: 0.5 }));
+		expect(getKey({ class: 'shown' })).not.toBe(getKey({ class: 'hidden' }));
+	});
+
+	it('should key hooks and root elements by identity', () => {
+		const onEnter = () => {};
+		const root = document.createElement('div');
+
+		expect(getKey({ onEnter, root })).toBe(getKey({ onEnter, root }));
+		expect(getKey({ onEnter: () => {}, root })).not.toBe(getKey({ onEnter, root }));
+		expect(getKey({ onEnter, root: document.createElement('div') })).not.toBe(getKey({ onEnter, root }));
+		expect(getKey({ onEnter })).not.toBe(getKey({ onLeave: onEnter }));
+	});
+});
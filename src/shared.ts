@@ -0,0 +1,42 @@
+/**
+ * Shared instances for the framework bindings: components register single elements,
+ * and every element with equal options joins the same `classyScroll()` instance.
+ */
+import { classyScroll, type ClassyScrollController, type ClassyScrollOptions } from './index';
+
+type SharedInstance = {
+	controller: ClassyScrollController;
+	elements: Set<HTMLElement>;
+};
+
+const instances = new Map<string, SharedInstance>();
+const identities = new WeakMap<object, number>();
+let lastIdentity = 0;
+
+/** Options with equal values share a key. Functions and elements can't be compared by value, so they count by identity. */
+export const getKey = (options: ClassyScrollOptions) => JSON.stringify(options, (key, value) => {
+	if (key === '' || (typeof value !== 'function' && !(value instanceof Element))) return value;
+	if (!identities.has(value)) identities.set(value, ++lastIdentity);
+	return `#${identities.get(value)}`;
+});
+
+/**
+ * Tracks an element in the shared instance for its options.
+ * @returns A function that stops tracking it; the instance is destroyed with its last element.
+ */
+export const attach = (element: HTMLElement, options: ClassyScrollOptions = {}) => {
+	const key = getKey(options);
+	const instance = instances.get(key) ?? { controller: classyScroll([], options), elements: new Set<HTMLElement>() };
+	instances.set(key, instance);
+	instance.elements.add(element);
+	instance.controller.add(element);
+
+	return () => {
+		if (!instance.elements.delete(element)) return;
+		instance.controller.remove(element);
+		if (instance.elements.size) return;
+
+		instance.controller.destroy();
+		instances.delete(key);
+	};
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { classy } from './svelte';
+import { triggerIntersect, getObserver, type IntersectionObserverMock } from '../test/setup';
+
+const getGhosts = () => document.querySelectorAll<HTMLElement>('[data-cs-ghost="true"]');
+
+describe('use:classy', () => {
+	it('should track the node until it is destroyed', () => {
+		const first = document.createElement('div');
+		const second = document.createElement('div');
+		document.body.append(first, second);
+
+		const firstAction = classy(first, { class: 'shown' });
+		const secondAction = classy(second, { class: 'shown' });
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(2);
+
+		triggerIntersect(ghosts[0], true);
+		expect(first.classList.contains('shown')).toBe(true);
+
+		firstAction.destroy();
+		expect(getGhosts()).toHaveLength(1);
+		secondAction.destroy();
+		expect(getGhosts()).toHaveLength(0);
+		first.remove();
+		second.remove();
+	});
+
+	it('should re-register the node with new options', () => {
+		const node = document.createElement('div');
+		document.body.appendChild(node);
+
+		const action = classy(node, { threshold: 0.2 });
+		action.update({ threshold: 0.8 });
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(1);
+		expect((getObserver(ghosts[0]) as unknown as IntersectionObserverMock).options?.threshold).toBe(0.8);
+
+		action.destroy();
+		node.remove();
+	});
+
+	it('should restore the swapped-out classes of a node revealed before an update', () => {
+		const node = document.createElement('div');
+		node.className = 'hidden';
+		document.body.appendChild(node);
+
+		const action = classy(node, { class: 'shown', removeClass: 'hidden', persistent: false });
+		triggerIntersect(getGhosts()[0], true);
+		action.update({ class: 'shown', removeClass: 'hidden', persistent: false, threshold: 0.5 });
+		expect(getGhosts()[0].className).toBe('hidden');
+
+		triggerIntersect(getGhosts()[0], false);
+		expect(node.className).toBe('hidden');
+
+		action.destroy();
+		node.remove();
+	});
+});
@@ -0,0 +1,19 @@
+/**
+ * Svelte binding: the `use:classy` action registers its node into a shared instance
+ * and removes it when the node is destroyed.
+ */
+import type { ClassyScrollOptions } from './index';
+import { attach } from './shared';
+
+/** Svelte action, e.g. `<div use:classy={{ class: 'shown' }}>`. New options re-register the node. */
+export const classy = (node: HTMLElement, options?: ClassyScrollOptions) => {
+	let detach = attach(node, options);
+
+	return {
+		update: (nextOptions?: ClassyScrollOptions) => {
+			detach();
+			detach = attach(node, nextOptions);
+		},
+		destroy: () => detach(),
+	};
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createApp, defineComponent, h, ref, withDirectives, nextTick } from 'vue';
+import { vClassy, ClassyScrollPlugin } from './vue';
+import { triggerIntersect } from '../test/setup';
+
+const getGhosts = () => document.querySelectorAll<HTMLElement>('[data-cs-ghost="true"]');
+
+describe('v-classy', () => {
+	it('should track elements while mounted', async () => {
+		const items = ref(['a', 'b']);
+		const List = defineComponent(() => () => h('ul', items.value.map(item => withDirectives(h('li', { key: item, id: item }), [[vClassy, { class: 'shown' }]]))));
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const app = createApp(List);
+		app.mount(container);
+
+		const ghosts = getGhosts();
+		expect(ghosts).toHaveLength(2);
+		triggerIntersect(ghosts[1], true);
+		expect(container.querySelector('#b')!.classList.contains('shown')).toBe(true);
+
+		items.value = ['b'];
+		await nextTick();
+		expect(getGhosts()).toHaveLength(1);
+
+		app.unmount();
+		expect(getGhosts()).toHaveLength(0);
+		container.remove();
+	});
+
+	it('should register the directive globally with the plugin', () => {
+		const directives: Record<string, unknown> = {};
+		ClassyScrollPlugin.install({ directive: (name: string, directive: unknown) => (directives[name] = directive) } as never);
+		expect(directives.classy).toBe(vClassy);
+	});
+});
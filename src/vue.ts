@@ -0,0 +1,27 @@
+/**
+ * Vue binding: the `v-classy` directive registers its element into a shared instance on mount
+ * and removes it on unmount. The binding value holds the options and is read once on mount.
+ */
+import type { App, ObjectDirective } from 'vue';
+import type { ClassyScrollOptions } from './index';
+import { attach } from './shared';
+
+const detachers = new WeakMap<HTMLElement, () => void>();
+
+/** Use as `v-classy` once imported in `<script setup>`, or register it globally with `ClassyScrollPlugin`. */
+export const vClassy: ObjectDirective<HTMLElement, ClassyScrollOptions | undefined> = {
+	mounted: (element, { value }) => {
+		detachers.set(element, attach(element, value));
+	},
+	unmounted: (element) => {
+		detachers.get(element)?.();
+		detachers.delete(element);
+	},
+};
+
+/** Registers `v-classy` on every component of the app. */
+export const ClassyScrollPlugin = {
+	install: (app: App) => {
+		app.directive('classy', vClassy);
+	},
+};
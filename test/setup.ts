@@ -50,14 +50,49 @@ export class IntersectionObserverMock {
 
 vi.stubGlobal('IntersectionObserver', IntersectionObserverMock);
 
-export function triggerIntersect(element: Element, isIntersecting: boolean) {
+export const resizeObservers = new Set<ResizeObserverMock>();
+
+export class ResizeObserverMock {
+	callback: ResizeObserverCallback;
+	targets = new Set<Element>();
+
+	constructor(callback: ResizeObserverCallback) {
+		this.callback = callback;
+		resizeObservers.add(this);
+	}
+
+	observe = vi.fn((element: Element) => {
+		this.targets.add(element);
+	});
+
+	unobserve = vi.fn((element: Element) => {
+		this.targets.delete(element);
+	});
+
+	disconnect = vi.fn(() => {
+		this.targets.clear();
+		resizeObservers.delete(this);
+	});
+}
+
+vi.stubGlobal('ResizeObserver', ResizeObserverMock);
+
+export function triggerResize(element: Element, width: number, height: number) {
+	resizeObservers.forEach((observer) => {
+		if (!observer.targets.has(element)) return;
+		const entry = { target: element, contentRect: { width, height } } as ResizeObserverEntry;
+		observer.callback([entry], observer as unknown as ResizeObserver);
+	});
+}
+
+export function triggerIntersect(element: Element, isIntersecting: boolean, intersectionRatio = isIntersecting ? 1 : 0) {
 	const data = intersectionObservers.get(element);
 	if (data) {
 		const entry: IntersectionObserverEntry = {
 			target: element,
 			isIntersecting,
 			boundingClientRect: element.getBoundingClientRect(),
-			intersectionRatio: isIntersecting ? 1 : 0,
+			intersectionRatio,
 			intersectionRect: isIntersecting ? element.getBoundingClientRect() : {
 				toJSON: () => { }, bottom: 0, height: 0, left: 0, right: 0, top: 0, width: 0, x: 0, y: 0,
 			},
@@ -68,6 +103,27 @@ export function triggerIntersect(element: Element, isIntersecting: boolean) {
 	}
 }
 
+/** Reports several elements in a single callback per observer, like one batch of a real IntersectionObserver. */
+export function triggerIntersectBatch(elements: Element[], isIntersecting: boolean) {
+	const batches = new Map<IntersectionObserver, { callback: IntersectionObserverCallback, entries: IntersectionObserverEntry[] }>();
+	elements.forEach((element) => {
+		const data = intersectionObservers.get(element);
+		if (!data) return;
+		const batch = batches.get(data.observer) ?? { callback: data.callback, entries: [] };
+		batch.entries.push({
+			target: element,
+			isIntersecting,
+			boundingClientRect: element.getBoundingClientRect(),
+			intersectionRatio: isIntersecting ? 1 : 0,
+			intersectionRect: element.getBoundingClientRect(),
+			rootBounds: null,
+			time: Date.now(),
+		});
+		batches.set(data.observer, batch);
+	});
+	batches.forEach(({ callback, entries }, observer) => callback(entries, observer));
+}
+
 export function getObserver(element: Element) {
 	return intersectionObservers.get(element)?.observer;
 }
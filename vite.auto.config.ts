@@ -0,0 +1,21 @@
+// vite.auto.config.ts
+import { defineConfig } from 'vite';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Builds the self-initializing bundle (dist/classy-scroll.auto.js) for plain <script> tags.
+export default defineConfig({
+	build: {
+		// Keep the main build output that runs first
+		emptyOutDir: false,
+		lib: {
+			entry: resolve(__dirname, 'src/auto.ts'),
+			name: 'ClassyScrollAuto',
+			formats: ['iife'],
+			fileName: () => 'classy-scroll.auto.js',
+		},
+	},
+});
@@ -0,0 +1,32 @@
+import { defineConfig } from 'vite';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const core = resolve(__dirname, 'src/index.ts');
+
+// Builds the framework bindings and the custom element (dist/react.js, dist/vue.js, dist/svelte.js, dist/element.js).
+// They import the core from the main bundle, so bindings and direct calls share one observer pool.
+export default defineConfig({
+	build: {
+		// Keep the main build output that runs first
+		emptyOutDir: false,
+		lib: {
+			entry: {
+				react: resolve(__dirname, 'src/react.ts'),
+				vue: resolve(__dirname, 'src/vue.ts'),
+				svelte: resolve(__dirname, 'src/svelte.ts'),
+				element: resolve(__dirname, 'src/element.ts'),
+			},
+			formats: ['es'],
+		},
+		rollupOptions: {
+			external: ['react', 'vue', core],
+			output: {
+				paths: { [core]: './classy-scroll.js' },
+			},
+		},
+	},
+});